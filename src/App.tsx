@@ -1,4 +1,10 @@
-import React, { useMemo, useState, useEffect } from "react";
+import React, {
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+  useEffect,
+} from "react";
 import { motion } from "framer-motion";
 import {
   Search,
@@ -9,19 +15,305 @@ import {
   Check,
   X,
   Upload,
+  Download,
+  LogOut,
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  FileText,
 } from "lucide-react";
+import {
+  AuthorizationError,
+  authorizePosting,
+  directory,
+  findUser,
+  logDenial,
+  can,
+  professorUser,
+  staffRole,
+  type AccessDenial,
+  type Permission,
+  type Role,
+  type User,
+} from "./auth";
+import {
+  identityHidden,
+  isBlind,
+  logReveal,
+  markRevealed,
+  redactHistory,
+  redactDocument,
+  type IdentityReveal,
+} from "./blind";
+import {
+  documentStore,
+  formatFileSize,
+  persistUpload,
+  type StoredDocument,
+} from "./documentStore";
+import {
+  APPLICATION_STATUSES,
+  DEFAULT_NEXT_STEP,
+  type Application,
+  type ApplicationStatus,
+  type InterviewSlot,
+  type MessageTemplate,
+  type Posting,
+  type RubricCriterion,
+  type StaffMember,
+  type StatusActor,
+  type StatusChange,
+  type StudentProfile,
+  type TimeSlot,
+  type TimetableEntry,
+  type TutorialSlot,
+  type Weekday,
+  WEEKDAYS,
+} from "./model";
+import {
+  activeFilterCount,
+  applyBrowseFilters,
+  DEFAULT_BROWSE_FILTERS,
+  type BrowseFilters,
+  type BrowseSort,
+} from "./browseFilters";
+import {
+  createFakeClock,
+  systemClock,
+  useNow,
+  type Clock as AppClock,
+} from "./clock";
+import {
+  DEFAULT_DASHBOARD_FILTERS,
+  applyDashboardFilters,
+  isStale,
+  validateProfessorName,
+  type DashboardFilters,
+} from "./dashboard";
+import {
+  DAY,
+  applyDeadlines,
+  closePosting,
+  countdownLabel,
+  formatDuration,
+  fromLocalInput,
+  isAcceptingApplications,
+  postingState,
+  reopenPosting,
+  toLocalInput,
+} from "./deadlines";
+import {
+  buildWeeklyCalendar,
+  parseIcsTimetable,
+  postingCalendarEvents,
+  type IcsWeeklyEvent,
+} from "./ics";
+import {
+  formatMeetings,
+  minutesOf,
+  normalizeTime,
+  overlapMinutes,
+  parseMeetings,
+  parseTimeRange,
+} from "./time";
+import {
+  CURRENT_TERM,
+  EXAMPLE_TIMETABLE,
+  initialPostings,
+} from "./mockData";
+import {
+  canWaitlist,
+  capacity,
+  fillFromWaitlists,
+  offerBlockedReason,
+} from "./capacity";
+import {
+  byPreference,
+  canRank,
+  movePreference,
+  proposeMatching,
+  publishMatching,
+  type MatchResult,
+} from "./matching";
+import {
+  DEFAULT_OFFER_DAYS,
+  expireOffers,
+  isOfferDue,
+  respondToOffer,
+  sendOffer,
+  validateRespondBy,
+} from "./offers";
+import {
+  clampPage,
+  countPdfPages,
+  DEFAULT_ZOOM,
+  inspectPdf,
+  PDF_MAX_BYTES,
+  PDF_MAX_PAGES,
+  stepZoom,
+  validatePdfFile,
+  viewerSrc,
+  ZOOM_LEVELS,
+} from "./pdf";
+import {
+  blockingApplications,
+  emptyPostingDraft,
+  normalizeDraft,
+  validatePosting,
+  validateSlot,
+  type PostingDraft,
+} from "./postings";
+import {
+  anonymousName,
+  applicantName,
+  attachClasses,
+  attachProfile,
+  courseGrade,
+  emptyProfile,
+  fromProfileDraft,
+  isProfileComplete,
+  STUDY_YEARS,
+  studentIdOf,
+  toClasses,
+  toProfileDraft,
+  validateProfile,
+  type ProfileDraft,
+} from "./profile";
+import {
+  changeNotifications,
+  deliver,
+  inboxOf,
+  markRead,
+  staffIds,
+  unreadCount,
+  type InboxItem,
+  type NewInboxItem,
+} from "./notifications";
+import {
+  rankByScore,
+  SCORE_MAX,
+  weightedScore,
+  type WeightedScore,
+} from "./rubric";
+import { addReviewNote, scoreNoteText, validateComment } from "./reviews";
+import {
+  bookInterview,
+  bookedSlot,
+  cancelBooking,
+  formatInterviewTime,
+  planInterviewSlots,
+  releaseStaleBookings,
+  rescheduleSlot,
+  validateInterviewSlots,
+} from "./interviews";
+import {
+  defaultTemplate,
+  renderTemplate,
+  TEMPLATE_PLACEHOLDERS,
+  templateVars,
+  validateMessage,
+  validateTemplate,
+} from "./templates";
+import {
+  layoutDay,
+  type BlockKind,
+  type CalendarBlock,
+  type PlacedBlock,
+} from "./schedule";
+import {
+  applicationsKey,
+  accessLogKey,
+  browseFiltersKey,
+  dashboardFiltersKey,
+  defaultResumeKey,
+  defaultTranscriptKey,
+  interviewSlotsKey,
+  messageTemplatesKey,
+  migrateApplicationV1,
+  migrateApplicationV2,
+  migrateApplicationV3,
+  migrateApplicationV4,
+  migrateApplicationV5,
+  migrateApplicationV6,
+  migrateApplicationV7,
+  migrateApplicationV8,
+  migrateApplicationV9,
+  migrateApplicationV10,
+  migratePostingV4,
+  notificationsKey,
+  postingsKey,
+  profPostingIdKey,
+  requireBlindReviewKey,
+  revealLogKey,
+  sessionUserIdKey,
+  studentProfileKey,
+  timetableKey,
+} from "./schema";
+import {
+  allowedTransitions,
+  bulkTransition,
+  canTransition,
+  submittedEntry,
+  transition,
+} from "./status";
+import { canOverwrite, migrate, usePersistedState } from "./storage";
 
 /**
  * CAS Department – TA Application Portal (Frontend Only, Preview)
  * - Student sees status ONLY in My Applications (not on Postings)
  * - Resume upload REQUIRED (PDF); Transcript uploads OPTIONAL (PDF)
- * - Multiple professor accounts (one course per account) with switcher
- * - Professors can close/reopen postings (students see closed state)
+ * - Students fill in a profile (see profile.ts) before applying; it goes
+ *   with every application, and professors see it together with the
+ *   student's own grade in their course
+ * - Blind first-round review (per posting, or required department-wide by
+ *   the coordinator) hides who applied until the interview stage; early
+ *   reveals are logged (see blind.ts)
+ * - Students keep their own weekly timetable (imported from .ics or edited
+ *   by hand); schedule conflicts are checked against it
+ * - Tutorial / accepted-position / course schedules export to .ics
+ * - Sign-in through a mock identity provider (see auth.ts); students,
+ *   professors and the coordinator only see their own area, professors
+ *   only postings they're on, and rejected attempts go to an access log
+ * - A posting's owner adds co-instructors (full access except delete and
+ *   staff changes) and reviewers (score and comment only); every status
+ *   change and review note records who made it
+ * - Professors can create, edit, close/reopen and delete their postings
+ *   (deleting is blocked while applications are still active)
+ * - Postings have an open date and deadline and close themselves when the
+ *   deadline passes; time comes from an injectable Clock
  * - Students can view, edit note, withdraw, and delete withdrawn applications
+ * - Status changes follow a fixed transition table (see status.ts) and are
+ *   kept as a timeline visible to both student and professor
+ * - Professors send offers with a response deadline; students accept or
+ *   decline them, and unanswered offers expire (the professor is notified)
+ * - Professors can select several applicants and change their status in
+ *   one go (same transition rules, one notification per student)
+ * - Professors publish interview slots; students at the interview stage
+ *   book one (no double booking, checked against their timetable) and are
+ *   notified when the professor moves or cancels it
+ * - Professors write the next-step message students see, from their own
+ *   template library ({course}, {studentName}, {interviewTime}) with a
+ *   default template per status per posting
+ * - Postings have a number of TA positions and hours per position; offers
+ *   stop once every seat is taken or pending, and a ranked waitlist gets
+ *   the next free seat automatically (see capacity.ts)
+ * - A coordinator sees every posting and application (filter by status /
+ *   course, overdue unreviewed ones), reassigns postings to another
+ *   professor and closes / reopens any posting
+ * - Students rank their applications; a coordinator runs a department-wide
+ *   matching (see matching.ts), reviews the proposal and publishes it
+ * - Professors score applicants against a weighted per-posting rubric and
+ *   can rank the applicant list by score
  * - Same student can have at most ONE active application per course
  *   (withdrawn applications don't block reapplying)
  * - Re-submitting for same course updates the existing active application
- * - Saved documents (prototype-only): default resume/transcript for quick apply
+ * - Saved documents: default resume/transcript for quick apply
+ * - Uploaded files are kept in IndexedDB (see documentStore) and survive reloads
+ * - Resumes and transcripts open in an in-app PDF viewer (pages, zoom,
+ *   download); students can preview a file before submitting
+ * - Every user has a persistent notification inbox (bell in the header,
+ *   unread count, links to the application); see notifications.ts
  * - When uploading resume/transcript, ask if user wants to set/replace defaults
  * - Balanced JSX; no duplicate component identifiers
  * - Lightweight runtime tests via console.assert (do not break UI)
@@ -31,65 +323,11 @@ import {
 const PRIMARY = "#7A003C";
 const BG = "#F9FAFB";
 
-// ---------------- Mock Data ----------------
-const INITIAL_POSTINGS = [
-  {
-    id: "SFWRENG-2HC3-W25",
-    code: "2HC3",
-    title: "SFWRENG 2HC3 – Human-Computer Interfaces",
-    professor: "Dr. Yuan",
-    studentPrevGrade: "A",
-    classTime: "Mon 14:30–16:20 (ITB 137)",
-    tutorialSlots: [
-      { day: "Tue", start: "10:30", end: "11:20" },
-      { day: "Thu", start: "09:30", end: "10:20" },
-    ],
-    closed: false,
-  },
-  {
-    id: "SFWRENG-2AA4-W25",
-    code: "2AA4",
-    title: "SFWRENG 2AA4 – Software Abstraction & Specification",
-    professor: "Dr. Smith",
-    studentPrevGrade: "A-",
-    classTime: "Tue 10:30–12:20 (ITB 201)",
-    tutorialSlots: [
-      { day: "Wed", start: "15:30", end: "16:20" },
-      { day: "Fri", start: "11:30", end: "12:20" },
-    ],
-    closed: false,
-  },
-];
-
-// Example student timetable (could be fed by Mosaic later)
-const STUDENT_CLASSES = [
-  { day: "Mon", start: "12:30", end: "13:20" },
-  { day: "Tue", start: "09:30", end: "10:20" },
-  { day: "Wed", start: "14:30", end: "15:20" },
-  { day: "Thu", start: "13:30", end: "14:20" },
-];
-
-// ---------------- Storage Helpers ----------------
-const storage = {
-  get(k: string, fallback: any) {
-    try {
-      const v = localStorage.getItem(k);
-      return v ? JSON.parse(v) : fallback;
-    } catch {
-      return fallback;
-    }
-  },
-  set(k: string, v: any) {
-    try {
-      localStorage.setItem(k, JSON.stringify(v));
-    } catch {
-      // ignore
-    }
-  },
-};
-
 // ---------------- Utility & Tests ----------------
-function isPdf(file: any) {
+// Anything with a name / MIME type: a fresh File or a StoredDocument ref
+type UploadLike = { name?: string; type?: string };
+
+function isPdf(file: UploadLike | null | undefined) {
   if (!file) return false;
   const okMime = file.type === "application/pdf";
   const okExt = file.name?.toLowerCase().endsWith(".pdf");
@@ -102,8 +340,8 @@ function isPdf(file: any) {
  * - transcript 可选，但如果提供也必须是 PDF
  */
 function validateApplicationInputs(payload: {
-  resume: any;
-  transcript?: any;
+  resume: UploadLike | null;
+  transcript?: UploadLike | null;
 } | null) {
   if (!payload) return { ok: false, msg: "No data provided." };
   const { resume, transcript } = payload;
@@ -115,8 +353,43 @@ function validateApplicationInputs(payload: {
   return { ok: true };
 }
 
+/**
+ * Content checks (see pdf.ts) for documents being attached: files picked
+ * just now and saved defaults, which older builds only checked by name /
+ * MIME type.
+ */
+async function validateNewUploads(
+  uploads: [File | StoredDocument | null, string][]
+): Promise<{ ok: boolean; msg?: string }> {
+  for (const [doc, label] of uploads) {
+    if (!doc) continue;
+    let blob: Blob | null;
+    try {
+      blob = doc instanceof File ? doc : await documentStore.getBlob(doc.id);
+    } catch {
+      blob = null;
+    }
+    if (!blob) {
+      return {
+        ok: false,
+        msg: `${label} could not be read from this browser. Upload it again.`,
+      };
+    }
+    const result = await validatePdfFile(blob, label);
+    if (!result.ok) return result;
+  }
+  return { ok: true };
+}
+
+// shown next to upload fields
+const PDF_LIMITS = `PDF, up to ${formatFileSize(
+  PDF_MAX_BYTES
+)} and ${PDF_MAX_PAGES} pages`;
+
 // Legacy helper (still used by inline tests)
-function validateOptionalUploads(payload: any) {
+function validateOptionalUploads(
+  payload: { resume?: UploadLike; transcript?: UploadLike } | null
+) {
   if (!payload) return true;
   const { resume, transcript } = payload;
   if (resume && !isPdf(resume)) return false;
@@ -173,59 +446,910 @@ function validateOptionalUploads(payload: any) {
     }).ok === false,
     "validateApplicationInputs: non-PDF resume fails"
   );
+  // storage migrations
+  const legacy = migrateApplicationV1({
+    id: "x1",
+    postingId: "P",
+    status: "reviewed",
+    resume: {},
+  });
+  console.assert(
+    legacy?.nextStep === DEFAULT_NEXT_STEP.reviewed &&
+      typeof legacy.createdAt === "number" &&
+      legacy.resume === null,
+    "migrateApplicationV1: fills nextStep/createdAt, drops serialized File"
+  );
+  console.assert(
+    migrateApplicationV1({ status: "submitted" }) === null,
+    "migrateApplicationV1: drops records without id"
+  );
+  console.assert(
+    migrateApplicationV1({ id: "x2", postingId: "P" }, 5)?.createdAt === 5 &&
+      initialPostings(0).every((p) => p.opensAt !== null && p.opensAt < 0),
+    "migrations / seed postings take the time from the caller's clock"
+  );
+  console.assert(
+    migrate(1, 0, 2, { 1: (d) => Number(d) + 1, 2: (d) => Number(d) * 10 }) ===
+      20,
+    "migrate: runs steps in order"
+  );
+  console.assert(
+    canOverwrite(null, 2) &&
+      canOverwrite("[1]", 2) &&
+      canOverwrite(JSON.stringify({ v: 2, data: [] }), 2) &&
+      !canOverwrite(JSON.stringify({ v: 3, data: [] }), 2),
+    "canOverwrite: data from a newer build is left alone"
+  );
+  // status state machine
+  const legacyV5 = migrateApplicationV5(
+    migrateApplicationV4(migrateApplicationV3(migrateApplicationV2(legacy!)))
+  );
+  const base: Application = {
+    ...migrateApplicationV10(
+      migrateApplicationV9(
+        migrateApplicationV8(
+          migrateApplicationV7(migrateApplicationV6(legacyV5)),
+          []
+        )
+      ),
+      [{ id: "P", code: "2HC3" }]
+    ),
+    status: "submitted",
+    history: [],
+  };
+  console.assert(
+    base.courseCode === "2HC3" &&
+      migrateApplicationV10(base, []).courseCode === base.postingId,
+    "migrateApplicationV10: copies the posting's code, else keeps the id"
+  );
+  const reviewed = transition(base, "reviewed", "professor", "ok", 1);
+  console.assert(
+    reviewed.status === "reviewed" &&
+      reviewed.history.length === 1 &&
+      reviewed.history[0].actor === "professor",
+    "transition: records history entry"
+  );
+  let threw = false;
+  try {
+    transition(base, "offered", "professor");
+  } catch {
+    threw = true;
+  }
+  console.assert(threw, "transition: submitted → offered is rejected");
+  console.assert(
+    !canTransition("submitted", "withdrawn", "professor") &&
+      canTransition("submitted", "withdrawn", "student") &&
+      !canTransition("withdrawn", "offered", "professor"),
+    "canTransition: only students withdraw, withdrawn is final"
+  );
+  const batch = bulkTransition(
+    [base, { ...base, id: "done", status: "offer-accepted" }],
+    "rejected",
+    "professor"
+  );
+  console.assert(
+    batch.updated.length === 1 &&
+      batch.skipped.length === 1 &&
+      batch.skipped[0].app.id === "done",
+    "bulkTransition: skips applications the table forbids"
+  );
+  // posting editor validation
+  const draft = { ...emptyPostingDraft("Dr. X"), code: "2HC3", title: "T" };
+  console.assert(
+    validatePosting(draft, []).ok === true,
+    "validatePosting: complete draft passes"
+  );
+  console.assert(
+    validatePosting(draft, [
+      {
+        ...draft,
+        id: "p",
+        closed: false,
+        availabilityHistory: [],
+        waitlist: [],
+        code: "2hc3",
+      },
+    ]).ok === false,
+    "validatePosting: duplicate course code fails"
+  );
+  // deadlines against a fake clock
+  const clock = createFakeClock(1_000 * DAY);
+  const timed: Posting = {
+    ...draft,
+    id: "p",
+    closed: false,
+    availabilityHistory: [],
+    waitlist: [],
+    opensAt: clock.now() - DAY,
+    deadline: clock.now() + 3 * DAY,
+  };
+  console.assert(
+    countdownLabel(timed, clock.now()) === "Closes in 3 days",
+    "countdownLabel: days until deadline"
+  );
+  clock.advance(3 * DAY);
+  const [autoClosed] = applyDeadlines([timed], clock.now());
+  console.assert(
+    autoClosed.closed &&
+      autoClosed.availabilityHistory[0]?.by === "system" &&
+      applyDeadlines([autoClosed], clock.now())[0] === autoClosed,
+    "applyDeadlines: closes once the deadline passes"
+  );
+  let reopenThrew = false;
+  try {
+    reopenPosting(autoClosed, clock.now());
+  } catch {
+    reopenThrew = true;
+  }
+  const reopened = reopenPosting(autoClosed, clock.now(), clock.now() + DAY);
+  console.assert(
+    reopenThrew &&
+      postingState(reopened, clock.now()) === "open" &&
+      reopened.availabilityHistory.length === 2,
+    "reopenPosting: needs a future deadline, keeps history"
+  );
+  // browse filters
+  const clashing: Posting = {
+    ...reopened,
+    id: "clash",
+    code: "1AA1",
+    tutorialSlots: [{ day: "Mon", start: "09:00", end: "10:00" }],
+  };
+  const fits: Posting = {
+    ...clashing,
+    id: "fits",
+    code: "1ZZ9",
+    tutorialSlots: [{ day: "Tue", start: "09:00", end: "10:00" }],
+  };
+  const shown = applyBrowseFilters(
+    [clashing, fits],
+    { ...DEFAULT_BROWSE_FILTERS, conflictFreeOnly: true },
+    {
+      now: clock.now(),
+      applications: [],
+      classes: [{ day: "Mon", start: "09:30", end: "10:20" }],
+    }
+  );
+  console.assert(
+    shown.length === 1 && shown[0].id === "fits",
+    "applyBrowseFilters: conflict-free filter drops clashing postings"
+  );
+  const upcoming = { ...fits, id: "soon", opensAt: clock.now() + DAY };
+  const closedOnly = applyBrowseFilters(
+    [fits, upcoming, { ...fits, id: "shut", closed: true }],
+    { ...DEFAULT_BROWSE_FILTERS, availability: "closed" },
+    { now: clock.now(), applications: [], classes: [] }
+  );
+  console.assert(
+    closedOnly.length === 1 && closedOnly[0].id === "shut",
+    "applyBrowseFilters: postings that haven't opened yet aren't closed"
+  );
+  // .ics timetable import
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "SUMMARY:COMPSCI 2C03 - LEC",
+    "LOCATION:ITB\\, 137",
+    "DTSTART;TZID=America/Toronto:20250106T093000",
+    "DTEND;TZID=America/Toronto:20250106T102000",
+    "RRULE:FREQ=WEEKLY;UNTIL=20250408T035959Z;BYDAY=MO,WE",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "SUMMARY:Midterm",
+    "DTSTART:20250210T190000",
+    "DTEND:20250210T210000",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+  let n = 0;
+  const imported = parseIcsTimetable(ics, () => `t${n++}`);
+  console.assert(
+    imported.entries.length === 2 &&
+      imported.entries[1].day === "Wed" &&
+      imported.entries[0].start === "09:30" &&
+      imported.entries[0].end === "10:20" &&
+      imported.entries[0].location === "ITB, 137" &&
+      imported.skipped === 1,
+    "parseIcsTimetable: expands weekly BYDAY, skips one-off events"
+  );
+  // calendar grid layout
+  const laid = layoutDay([
+    {
+      id: "c",
+      kind: "class",
+      label: "C",
+      day: "Tue",
+      start: "10:00",
+      end: "11:00",
+    },
+    {
+      id: "t1",
+      kind: "tutorial",
+      label: "T1",
+      day: "Tue",
+      start: "10:30",
+      end: "11:20",
+    },
+    {
+      id: "t2",
+      kind: "tutorial",
+      label: "T2",
+      day: "Tue",
+      start: "13:30",
+      end: "14:20",
+    },
+  ]);
+  const t1 = laid.find((p) => p.block.id === "t1");
+  const t2 = laid.find((p) => p.block.id === "t2");
+  console.assert(
+    t1?.cols === 2 &&
+      t1.col === 1 &&
+      t1.conflicts.length === 1 &&
+      t2?.cols === 1 &&
+      t2.conflicts.length === 0,
+    "layoutDay: overlapping blocks side-by-side, conflicts per block"
+  );
+  // time parsing
+  console.assert(
+    normalizeTime("9:30") === "09:30" &&
+      normalizeTime("2:30 PM") === "14:30" &&
+      normalizeTime("12am") === "00:00" &&
+      normalizeTime("25:00") === null,
+    "normalizeTime: unpadded, 12h and invalid times"
+  );
+  const range = parseTimeRange("11-1pm");
+  console.assert(
+    range?.start === 11 * 60 && range.end === 13 * 60,
+    "parseTimeRange: end meridiem applies to the start"
+  );
+  const meetings = parseMeetings("Tue/Thu 9:30-10:20 (ITB 201)");
+  console.assert(
+    meetings?.length === 2 &&
+      meetings[1].day === "Thu" &&
+      meetings[0].start === "09:30" &&
+      meetings[0].location === "ITB 201" &&
+      formatMeetings(meetings) === "Tue/Thu 09:30–10:20 (ITB 201)",
+    "parseMeetings / formatMeetings: round trip"
+  );
+  console.assert(
+    overlapMinutes(
+      { day: "Mon", start: "9:30", end: "10:20" },
+      { day: "Mon", start: "10:00", end: "11:00" }
+    ) === 20 &&
+      minutesOf("9:30") < minutesOf("10:00"),
+    "overlapMinutes: works on unpadded times"
+  );
+  // .ics export
+  const exported = buildWeeklyCalendar(
+    "Test; cal",
+    [
+      {
+        uid: "u1",
+        summary: "2HC3 TA tutorial",
+        day: "Wed",
+        start: "15:30",
+        end: "16:20",
+      },
+    ],
+    { name: "W25", start: "2025-01-06", end: "2025-04-08" },
+    0
+  );
+  console.assert(
+    exported.includes("DTSTART:20250108T153000") &&
+      exported.includes("RRULE:FREQ=WEEKLY;BYDAY=WE;UNTIL=20250408T235959") &&
+      exported.includes("X-WR-CALNAME:Test\\; cal") &&
+      parseIcsTimetable(exported, () => "x").entries[0]?.start === "15:30",
+    "buildWeeklyCalendar: first weekday in term, weekly until term end"
+  );
+  // rubric scoring
+  const { rubric } = migratePostingV4({
+    ...draft,
+    id: "p",
+    closed: false,
+    availabilityHistory: [],
+  });
+  console.assert(
+    weightedScore({ grade: 5, experience: 5, availability: 5 }, rubric)
+      .score === 100 &&
+      weightedScore({ grade: 5, experience: 0, availability: 0 }, rubric)
+        .score === 40 &&
+      weightedScore({}, rubric).score === null,
+    "weightedScore: normalized to 0–100 by weight"
+  );
+  const ranked = rankByScore(
+    [
+      { ...base, id: "none", scores: {} },
+      { ...base, id: "partial", scores: { grade: 5 } },
+      {
+        ...base,
+        id: "low",
+        scores: { grade: 1, experience: 1, availability: 1 },
+      },
+    ],
+    rubric
+  );
+  console.assert(
+    ranked.map((a) => a.id).join() === "low,partial,none",
+    "rankByScore: fully scored first, unscored last"
+  );
+  // offers
+  const offered = sendOffer(
+    { ...base, status: "interview" },
+    5_000,
+    "Offer!",
+    1_000
+  );
+  threw = false;
+  try {
+    respondToOffer(offered, true, 6_000);
+  } catch {
+    threw = true;
+  }
+  console.assert(
+    offered.status === "offered" &&
+      respondToOffer(offered, true, 2_000).status === "offer-accepted" &&
+      threw &&
+      expireOffers([offered], 6_000)[0].status === "expired" &&
+      expireOffers([offered], 2_000)[0] === offered,
+    "offers: answer before the deadline, expire after it"
+  );
+  // capacity / waitlist
+  const seated: Posting = {
+    ...timed,
+    id: "P",
+    positions: 1,
+    waitlist: ["gone", "w1", "w2"],
+  };
+  const waiting = ["w1", "w2"].map((id) => ({
+    ...base,
+    id,
+    status: "interview" as const,
+  }));
+  const full = [offered, ...waiting];
+  const declined = { ...offered, status: "offer-declined" as const };
+  const freed = fillFromWaitlists(
+    [seated],
+    [declined, ...waiting],
+    9_000,
+    () => "From the waitlist",
+    3_000
+  );
+  console.assert(
+    capacity(seated, full).remaining === 0 &&
+      offerBlockedReason(seated, full) !== null &&
+      fillFromWaitlists([seated], full, 9_000, () => "", 3_000)?.offered
+        .length === 0 &&
+      freed?.offered.length === 1 &&
+      freed.offered[0].id === "w1" &&
+      freed.offered[0].history.at(-1)?.actor === "system" &&
+      freed.postings[0].waitlist.join() === "w2",
+    "fillFromWaitlists: offers a freed seat to the top of the waitlist"
+  );
+  // department matching: both students want A, A's professor prefers "2"
+  const courseA: Posting = { ...seated, id: "A", code: "A", waitlist: [] };
+  const courseB: Posting = { ...courseA, id: "B", code: "B" };
+  const top = { grade: 5, experience: 5, availability: 5 };
+  const candidates = [
+    { id: "1a", postingId: "A", preference: 1, scores: {} },
+    { id: "1b", postingId: "B", preference: 2, scores: {} },
+    { id: "2a", postingId: "A", preference: 1, scores: top },
+    { id: "2b", postingId: "B", preference: 2, scores: top },
+  ].map((c) => ({ ...base, ...c, status: "interview" as const }));
+  const studentOf = (a: Application) => a.id[0];
+  const matched = proposeMatching([courseA, courseB], candidates, {
+    studentOf,
+    classesOf: () => [],
+  });
+  const published = publishMatching(
+    matched.assignments,
+    candidates,
+    [courseA, courseB],
+    9_000,
+    () => "Matched",
+    3_000
+  );
+  console.assert(
+    matched.assignments.map((a) => a.app.id).join() === "2a,1b" &&
+      matched.assignments[1].preference === 2 &&
+      published.offered.length === 2 &&
+      published.offered[0].history.at(-1)?.actor === "coordinator" &&
+      movePreference(candidates.slice(0, 2), "1b", -1)[1].preference === 1,
+    "proposeMatching: stable, one seat per student, respects rankings"
+  );
+  // authorization
+  const yuan = professorUser("Dr. Yuan");
+  const smiths: Posting = {
+    ...timed,
+    professor: "Dr. Smith",
+    staff: [{ name: "Jordan Lee", role: "reviewer" }],
+  };
+  let denied = false;
+  try {
+    authorizePosting(yuan, smiths, "x", "view");
+  } catch (err) {
+    denied = err instanceof AuthorizationError;
+  }
+  const coordinator = findUser([smiths], "coordinator");
+  const reviewer = findUser([smiths], professorUser("Jordan Lee").id);
+  console.assert(
+    denied &&
+      can(professorUser("Dr. Smith"), smiths, "own") &&
+      !!coordinator &&
+      can(coordinator, smiths, "own") &&
+      !!reviewer &&
+      can(reviewer, smiths, "review") &&
+      !can(reviewer, smiths, "decide") &&
+      logDenial([], yuan, "x", "no", 1).length === 1,
+    "authorizePosting: staff act on their postings as far as their role allows"
+  );
+  const noted = addReviewNote(base, "Jordan Lee", "comment", "  Strong  ", 4);
+  console.assert(
+    noted.reviews[0].text === "Strong" &&
+      noted.reviews[0].by === "Jordan Lee" &&
+      !validateComment("   ").ok &&
+      transition(base, "reviewed", "professor", "", 5, "Dr. Smith").history.at(
+        -1
+      )?.by === "Dr. Smith",
+    "addReviewNote: notes and status changes record who made them"
+  );
+  // student profiles
+  const profileDraft: ProfileDraft = {
+    ...toProfileDraft(emptyProfile("s1", "Sam")),
+    studentNumber: "400000001",
+    email: "sam@mcmaster.ca",
+    grades: [{ course: " 2hc3", grade: "B+ " }],
+  };
+  const samProfile = fromProfileDraft(profileDraft);
+  const [attached, foreign] = attachProfile(
+    [base, { ...base, student: emptyProfile("s2") }],
+    samProfile
+  );
+  console.assert(
+    validateProfile(profileDraft).ok &&
+      !validateProfile({ ...profileDraft, studentNumber: "123" }).ok &&
+      !validateProfile({
+        ...profileDraft,
+        grades: [...profileDraft.grades, { course: "2HC3", grade: "A" }],
+      }).ok &&
+      courseGrade(samProfile, "2HC3") === "B+" &&
+      courseGrade(samProfile, "2AA4") === null &&
+      attached.student?.name === "Sam" &&
+      foreign.student?.id === "s2" &&
+      applicantName(base) === `Applicant #${base.id.slice(-5)}`,
+    "profiles: validated, attached to the student's applications only"
+  );
+  const mondays: TimetableEntry[] = [
+    { id: "t", title: "2HC3", day: "Mon", start: "09:00", end: "10:00" },
+  ];
+  const [scheduled, notTheirs] = attachClasses(
+    [base, { ...base, student: emptyProfile("s2") }],
+    samProfile,
+    mondays
+  );
+  const unchanged = [scheduled];
+  console.assert(
+    scheduled.classes.length === 1 &&
+      !("title" in scheduled.classes[0]) &&
+      notTheirs.classes.length === 0 &&
+      attachClasses(unchanged, samProfile, mondays) === unchanged,
+    "attachClasses: copies the student's class times onto their applications"
+  );
+  // blind review
+  const blindPosting = { ...timed, blindReview: true };
+  const screened = transition(base, "reviewed", "professor", "", 1);
+  const invited = transition(screened, "interview", "professor", "", 2);
+  const early = logReveal([], base, timed, "Dr. Smith", 3);
+  const oldLog = Array.from({ length: 300 }, () => early[0]);
+  const revealed = markRevealed(base, "Dr. Smith", 3);
+  console.assert(
+    identityHidden(screened, blindPosting, false) &&
+      !identityHidden(invited, blindPosting, false) &&
+      !identityHidden(base, timed, false) &&
+      identityHidden(base, timed, true) &&
+      !identityHidden(revealed, blindPosting, false) &&
+      logReveal(oldLog, base, timed, "Dr. Yuan", 4).length === 301 &&
+      migrateApplicationV8(base, early).revealed?.by === "Dr. Smith" &&
+      early[0].by === "Dr. Smith" &&
+      redactDocument(
+        { id: "d", name: "Sam_Lee_CV.pdf", type: "", size: 1, uploadedAt: 0 },
+        "resume"
+      ).name === "resume.pdf",
+    "identityHidden: hidden until the interview stage or an early reveal"
+  );
+  const blindApp = { ...base, student: samProfile };
+  const greeted = transition(
+    blindApp,
+    "reviewed",
+    "professor",
+    renderTemplate(
+      "Hi {studentName} ({course}), we'll be in touch",
+      templateVars(blindApp, blindPosting)
+    ),
+    1
+  );
+  const staffTimeline = redactHistory(greeted, anonymousName(greeted));
+  console.assert(
+    greeted.history[0].message.includes("Sam") &&
+      staffTimeline.every((h) => !h.message.includes("Sam")) &&
+      staffTimeline[0].message.includes(anonymousName(greeted)),
+    "redactHistory: the staff timeline doesn't greet the student by name"
+  );
+  // pdf viewer
+  const twoPages = new TextEncoder().encode(
+    "<< /Type /Pages /Count 2 >> << /Type /Page >> << /Type/Page >>"
+  );
+  console.assert(
+    countPdfPages(twoPages) === 2 &&
+      countPdfPages(new Uint8Array()) === null &&
+      clampPage(5, 2) === 2 &&
+      clampPage(5, null) === 5 &&
+      stepZoom(DEFAULT_ZOOM, 1) === 125 &&
+      stepZoom(ZOOM_LEVELS[0], -1) === ZOOM_LEVELS[0] &&
+      viewerSrc("blob:x", 2, 150) === "blob:x#page=2&zoom=150",
+    "countPdfPages: counts page objects, not the page tree"
+  );
+  const onePage = "%PDF-1.7\n<< /Type /Page >>\ntrailer << >>\n%%EOF\n";
+  const pdfMsg = (body: string) =>
+    inspectPdf(new TextEncoder().encode(body), "Resume").msg ?? "";
+  const encrypted = onePage.replace("<< >>", "<< /Encrypt 9 0 R >>");
+  const tooLong = onePage.replace(
+    "<< /Type /Page >>",
+    "<< /Type /Page >>".repeat(PDF_MAX_PAGES + 1)
+  );
+  console.assert(
+    pdfMsg(onePage) === "" &&
+      pdfMsg("PK\u0003\u0004word/document.xml").includes("isn't a real PDF") &&
+      pdfMsg(encrypted).includes("password-protected") &&
+      pdfMsg(onePage.replace("%%EOF", "")).includes("damaged") &&
+      pdfMsg(tooLong).includes(`the limit is ${PDF_MAX_PAGES}`),
+    "inspectPdf: signature, encryption, end marker and page limit"
+  );
+  // notification inbox
+  const noticed = { ...base, postingId: smiths.id };
+  const [closedSmiths] = applyDeadlines([smiths], clock.now() + DAY);
+  const changes = changeNotifications(
+    { applications: [noticed], postings: [smiths] },
+    {
+      applications: [
+        transition(noticed, "withdrawn", "student", "", 1),
+        { ...noticed, id: "new" },
+      ],
+      postings: [closedSmiths],
+    }
+  );
+  const smithId = professorUser("Dr. Smith").id;
+  const staffMove = changeNotifications(
+    { applications: [noticed], postings: [smiths] },
+    {
+      applications: [
+        transition(noticed, "reviewed", "professor", "Hi", 1, "Dr. Smith"),
+      ],
+      postings: [smiths],
+    }
+  );
+  const inbox = deliver(
+    [],
+    changes,
+    5,
+    (() => {
+      let n = 0;
+      return () => `n${n++}`;
+    })()
+  );
+  console.assert(
+    staffIds(smiths).length === 2 &&
+      changes.length === 7 &&
+      changes.filter((c) => c.to === smithId).length === 3 &&
+      changes.some(
+        (c) => c.title === "Posting Closed" && c.applicationId === "new"
+      ) &&
+      staffMove.length === 2 &&
+      staffMove[0].to === professorUser("Jordan Lee").id &&
+      staffMove[1].to === studentIdOf(noticed) &&
+      unreadCount(inbox, smithId) === 3 &&
+      unreadCount(markRead(inbox, smithId, ["n0"]), smithId) === 2 &&
+      unreadCount(markRead(inbox, smithId), smithId) === 0 &&
+      inboxOf(inbox, smithId)[0].id === "n4",
+    "changeNotifications: staff hear of applications and closings, open " +
+      "applicants of closings, everyone of what others changed"
+  );
+  // coordinator dashboard
+  const fresh = { ...base, id: "fresh", createdAt: 9 * DAY };
+  const old = { ...base, id: "old", createdAt: 0 };
+  const overdue = applyDashboardFilters(
+    [fresh, old, { ...old, id: "seen", status: "reviewed" as const }],
+    { ...DEFAULT_DASHBOARD_FILTERS, staleDays: 7, staleOnly: true },
+    10 * DAY
+  );
+  console.assert(
+    overdue.map((a) => a.id).join() === "old" &&
+      closePosting(timed, 1, "coordinator").availabilityHistory.at(-1)?.by ===
+        "coordinator",
+    "applyDashboardFilters: only submitted applications past N days"
+  );
+  const legacyAccepted = migrateApplicationV1({
+    id: "x2",
+    postingId: "P",
+    status: "accepted",
+  });
+  console.assert(
+    migrateApplicationV4(
+      migrateApplicationV3(migrateApplicationV2(legacyAccepted!))
+    ).status === "offer-accepted",
+    "migrateApplicationV4: legacy accepted becomes offer-accepted"
+  );
+  // interview booking
+  const interviewApp = { ...base, id: "iv", status: "interview" as const };
+  const [mon10, mon11] = planInterviewSlots(
+    {
+      postingId: "P",
+      start: new Date(2030, 0, 7, 10, 0).getTime(), // a Monday
+      minutes: 30,
+      count: 2,
+      location: "",
+    },
+    cryptoId
+  );
+  const bookedMon = bookInterview(
+    [mon10, mon11],
+    mon10.id,
+    interviewApp,
+    { timetable: [], applications: [interviewApp] },
+    0
+  );
+  let clashed = "";
+  try {
+    bookInterview(
+      [mon10, mon11],
+      mon11.id,
+      interviewApp,
+      {
+        timetable: [
+          { id: "c", title: "3A04", day: "Mon", start: "10:30", end: "11:30" },
+        ],
+        applications: [interviewApp],
+      },
+      0
+    );
+  } catch (err) {
+    clashed = (err as Error).message;
+  }
+  console.assert(
+    bookedMon[0].bookedBy === "iv" && clashed.includes("3A04"),
+    "bookInterview: books a free slot, rejects timetable clashes"
+  );
+  threw = false;
+  try {
+    bookInterview(
+      bookedMon,
+      mon10.id,
+      { ...interviewApp, id: "other" },
+      { timetable: [], applications: [] },
+      0
+    );
+  } catch {
+    threw = true;
+  }
+  console.assert(threw, "bookInterview: a slot can't be booked twice");
+  console.assert(
+    releaseStaleBookings(bookedMon, [{ ...interviewApp, status: "rejected" }], 0)
+      .every((s) => s.bookedBy === null),
+    "releaseStaleBookings: frees slots of applications past the interview"
+  );
+  // next-step message templates
+  console.assert(
+    renderTemplate("Hi {studentName}, {course} at {interviewTime} {x}", {
+      course: "2HC3",
+      interviewTime: "Mon 10:00",
+    }) === "Hi applicant, 2HC3 at Mon 10:00 {x}",
+    "renderTemplate: fills known placeholders, falls back when missing"
+  );
+  console.assert(
+    validateMessage("See you in {course}").ok &&
+      !validateMessage("See you in {cours}").ok &&
+      !validateTemplate(" ", "ok").ok,
+    "validateTemplate: needs a name and known placeholders"
+  );
 })();
 
 // ---------------- App ----------------
-function App() {
-  // top-level tabs
-  const [tab, setTab] = useState<"student" | "professor">("student");
+function App({ clock = systemClock }: { clock?: AppClock }) {
   const [studentSubTab, setStudentSubTab] = useState<"postings" | "account">(
     "postings"
   );
 
-  // postings (professors can close/reopen)
-  const [postings, setPostings] = useState(INITIAL_POSTINGS);
+  // postings (professors can create / edit / close / delete)
+  const [postings, setPostings] = usePersistedState(postingsKey, clock);
+
+  // close postings whose deadline passed (on load and on every clock tick)
+  const now = useNow(clock);
+  useEffect(() => {
+    setPostings((list) => applyDeadlines(list, now));
+  }, [now, setPostings]);
+
+  // signed-in user (mock identity provider, see auth.ts); each role only
+  // gets its own area
+  const [sessionUserId, setSessionUserId] = usePersistedState(sessionUserIdKey);
+  const user = findUser(postings, sessionUserId);
+  const [accessLog, setAccessLog] = usePersistedState(accessLogKey);
+  const denyAccess = useCallback(
+    (who: User, action: string, reason: string) =>
+      setAccessLog((log) => logDenial(log, who, action, reason, clock.now())),
+    [clock, setAccessLog]
+  );
 
-  // professor account selection (one course per prof account)
-  const [profPostingId, setProfPostingId] = useState(() =>
-    storage.get("profPostingId", INITIAL_POSTINGS[0]?.id || "")
+  // blind first-round review: department switch and early reveals
+  const [requireBlindReview, setRequireBlindReview] = usePersistedState(
+    requireBlindReviewKey
   );
-  useEffect(() => storage.set("profPostingId", profPostingId), [profPostingId]);
+  const [revealLog, setRevealLog] = usePersistedState(revealLogKey);
+
+  // course the signed-in professor is looking at
+  const [profPostingId, setProfPostingId] = usePersistedState(profPostingIdKey);
 
-  // applications
-  const [applications, setApplications] = useState<any[]>(() =>
-    storage.get("apps", [])
+  // applications (resume / transcript are StoredDocument refs, blobs in IndexedDB)
+  const [applications, setApplications] = usePersistedState(
+    applicationsKey,
+    clock
   );
-  useEffect(() => storage.set("apps", applications), [applications]);
 
-  // Saved documents (front-end only, per-session)
-  const [defaultResume, setDefaultResume] = useState<File | null>(null);
-  const [defaultTranscript, setDefaultTranscript] = useState<File | null>(null);
+  // professors' next-step message templates
+  const [templates, setTemplates] = usePersistedState(messageTemplatesKey);
+
+  // interview slots published by professors, booked by students
+  const [interviewSlots, setInterviewSlots] =
+    usePersistedState(interviewSlotsKey);
+  // free upcoming slots once their application leaves the interview stage
+  useEffect(() => {
+    setInterviewSlots((list) => releaseStaleBookings(list, applications, now));
+  }, [applications, now, setInterviewSlots]);
+
+  // the student's weekly classes, used for schedule conflict checks
+  const [timetable, setTimetable] = usePersistedState(timetableKey);
+
+  // the student's profile, copied onto their applications
+  const [profile, setProfile] = usePersistedState(studentProfileKey);
+  // so are their classes, for the coordinator's matching run
+  useEffect(() => {
+    setApplications((list) => attachClasses(list, profile, timetable));
+  }, [profile, timetable, setApplications]);
+
+  // Saved documents (persisted; blobs in IndexedDB)
+  const [defaultResume, setDefaultResume] = usePersistedState(defaultResumeKey);
+  const [defaultTranscript, setDefaultTranscript] =
+    usePersistedState(defaultTranscriptKey);
+
+  // Drop blobs left behind by replaced uploads / deleted applications.
+  // Only on load: pruning while an upload is in flight could delete it.
+  useEffect(() => {
+    const ids = new Set<string>();
+    for (const a of applicationsKey.load()) {
+      if (a.resume) ids.add(a.resume.id);
+      if (a.transcript) ids.add(a.transcript.id);
+    }
+    for (const d of [defaultResumeKey.load(), defaultTranscriptKey.load()]) {
+      if (d) ids.add(d.id);
+    }
+    documentStore.prune(ids).catch(() => {
+      // ignore – stale blobs are harmless
+    });
+  }, []);
 
-  // toasts
+  // toasts: confirm the signed-in user's own actions, and pop up notices
+  // arriving in their inbox
   const [toasts, setToasts] = useState<
     { id: string; title: string; body: string }[]
   >([]);
-  const notify = (title: string, body: string) => {
+  const notify = useCallback((title: string, body: string) => {
     const id = Math.random().toString(36).slice(2, 9);
     setToasts((t) => [...t, { id, title, body }]);
     setTimeout(() => setToasts((t) => t.filter((x) => x.id !== id)), 3200);
+  }, []);
+
+  // per-user notification inbox (see notifications.ts)
+  const [inbox, setInbox] = usePersistedState(notificationsKey);
+  const userId = user?.id;
+  const send = useCallback(
+    (items: NewInboxItem[]) => {
+      setInbox((list) => deliver(list, items, clock.now(), cryptoId));
+      items
+        .filter((item) => item.to === userId)
+        .forEach((item) => notify(item.title, item.body));
+    },
+    [clock, setInbox, userId, notify]
+  );
+  // status changes, new applications and closed postings, whoever (or
+  // whatever) made them
+  const lastSeen = useRef({ applications, postings });
+  useEffect(() => {
+    const items = changeNotifications(lastSeen.current, {
+      applications,
+      postings,
+    });
+    lastSeen.current = { applications, postings };
+    if (items.length > 0) send(items);
+  }, [applications, postings, send]);
+
+  // application a notice links to, opened by the student / professor view
+  const [focusAppId, setFocusAppId] = useState<string | null>(null);
+  const clearFocus = useCallback(() => setFocusAppId(null), []);
+  const openNotice = (item: InboxItem) => {
+    if (!user) return;
+    setInbox((list) => markRead(list, user.id, [item.id]));
+    if (user.role === "student") setStudentSubTab("account");
+    if (user.role === "professor" && item.postingId) {
+      setProfPostingId(item.postingId);
+    }
+    setFocusAppId(item.applicationId);
   };
 
+  // expire offers nobody answered in time (staff and student are notified)
+  useEffect(() => {
+    if (!applications.some((a) => isOfferDue(a, now))) return;
+    setApplications((list) => expireOffers(list, now));
+  }, [applications, now, setApplications]);
+
+  // hand free seats to waitlisted applicants (declines, expiries, withdrawals)
+  useEffect(() => {
+    const result = fillFromWaitlists(
+      postings,
+      applications,
+      now + DEFAULT_OFFER_DAYS * DAY,
+      (app, posting) =>
+        renderTemplate(
+          defaultTemplate(posting, "offered", templates)?.body ??
+            DEFAULT_NEXT_STEP.offered,
+          templateVars(app, posting, bookedSlot(interviewSlots, app.id))
+        ),
+      now
+    );
+    if (!result) return;
+    const waitlists = new Map(result.postings.map((p) => [p.id, p.waitlist]));
+    setPostings((list) =>
+      list.map((p) => {
+        const waitlist = waitlists.get(p.id);
+        return waitlist ? { ...p, waitlist } : p;
+      })
+    );
+    const offered = new Map(result.offered.map((a) => [a.id, a]));
+    setApplications((list) => list.map((a) => offered.get(a.id) ?? a));
+  }, [
+    postings,
+    applications,
+    templates,
+    interviewSlots,
+    now,
+    setPostings,
+    setApplications,
+  ]);
+
   return (
     <div style={{ background: BG, minHeight: "100vh" }}>
       <Header
-        tab={tab}
-        setTab={setTab}
+        user={user}
+        onSignOut={() => setSessionUserId("")}
         studentSubTab={studentSubTab}
         setStudentSubTab={setStudentSubTab}
         applicationCount={applications.length}
+        notices={user ? inboxOf(inbox, user.id) : []}
+        unread={user ? unreadCount(inbox, user.id) : 0}
+        onOpenNotice={openNotice}
+        onMarkAllRead={() =>
+          user && setInbox((list) => markRead(list, user.id))
+        }
       />
 
       <main className="w-full px-8 py-6 max-w-6xl mx-auto">
-        {tab === "student" ? (
+        {!user ? (
+          <SignIn
+            users={directory(postings)}
+            onSignIn={(u) => setSessionUserId(u.id)}
+          />
+        ) : user.role === "student" ? (
           studentSubTab === "postings" ? (
             <StudentBrowse
+              clock={clock}
+              timetable={timetable}
               postings={postings}
               applications={applications}
               onSubmitted={(courseCode) =>
@@ -236,26 +1360,80 @@ function App() {
               defaultTranscript={defaultTranscript}
               setDefaultResume={setDefaultResume}
               setDefaultTranscript={setDefaultTranscript}
+              profile={profile}
             />
           ) : (
             <StudentAccount
+              clock={clock}
+              postings={postings}
+              timetable={timetable}
+              setTimetable={setTimetable}
               applications={applications}
               setApplications={setApplications}
+              interviewSlots={interviewSlots}
+              setInterviewSlots={setInterviewSlots}
               defaultResume={defaultResume}
               defaultTranscript={defaultTranscript}
               setDefaultResume={setDefaultResume}
               setDefaultTranscript={setDefaultTranscript}
+              profile={profile}
+              setProfile={setProfile}
+              focusAppId={focusAppId}
+              onFocused={clearFocus}
             />
           )
-        ) : (
+        ) : user.role === "professor" ? (
           <ProfessorView
+            user={user}
+            onDenied={(action, reason) => denyAccess(user, action, reason)}
+            blindRequired={requireBlindReview}
+            onReveal={(app, posting) =>
+              setRevealLog((log) =>
+                logReveal(log, app, posting, user.name, clock.now())
+              )
+            }
+            clock={clock}
             postings={postings}
             setPostings={setPostings}
             applications={applications}
             setApplications={setApplications}
-            pingStudent={(msg) => notify("Application Updated", msg)}
+            templates={templates}
+            setTemplates={setTemplates}
+            interviewSlots={interviewSlots}
+            setInterviewSlots={setInterviewSlots}
+            pingStudent={(appId, msg) => {
+              const app = applications.find((a) => a.id === appId);
+              if (!app) return;
+              send([
+                {
+                  to: studentIdOf(app),
+                  title: "Interview Updated",
+                  body: msg,
+                  applicationId: app.id,
+                  postingId: app.postingId,
+                },
+              ]);
+            }}
             profPostingId={profPostingId}
             setProfPostingId={setProfPostingId}
+            focusAppId={focusAppId}
+            onFocused={clearFocus}
+          />
+        ) : (
+          <CoordinatorView
+            clock={clock}
+            user={user}
+            postings={postings}
+            setPostings={setPostings}
+            applications={applications}
+            setApplications={setApplications}
+            templates={templates}
+            interviewSlots={interviewSlots}
+            accessLog={accessLog}
+            requireBlindReview={requireBlindReview}
+            setRequireBlindReview={setRequireBlindReview}
+            revealLog={revealLog}
+            notify={notify}
           />
         )}
       </main>
@@ -288,20 +1466,36 @@ function App() {
 }
 
 // ---------------- Header ----------------
+const ROLE_LABEL: Record<Role, string> = {
+  student: "Student",
+  professor: "Professor",
+  coordinator: "Coordinator",
+};
+
 function Header(props: {
-  tab: "student" | "professor";
-  setTab: (t: "student" | "professor") => void;
+  user: User | null;
+  onSignOut: () => void;
   studentSubTab: "postings" | "account";
   setStudentSubTab: (s: "postings" | "account") => void;
   applicationCount: number;
+  /** the user's notices, newest first */
+  notices: InboxItem[];
+  unread: number;
+  onOpenNotice: (item: InboxItem) => void;
+  onMarkAllRead: () => void;
 }) {
   const {
-    tab,
-    setTab,
+    user,
+    onSignOut,
     studentSubTab,
     setStudentSubTab,
     applicationCount = 0,
+    notices,
+    unread,
+    onOpenNotice,
+    onMarkAllRead,
   } = props;
+  const [inboxOpen, setInboxOpen] = useState(false);
 
   return (
     <header
@@ -325,37 +1519,111 @@ function Header(props: {
           </div>
         </div>
         <div className="flex items-center gap-2">
-          <button
-            onClick={() => setTab("student")}
-            className={`px-3 py-1.5 rounded-lg text-sm border ${
-              tab === "student" ? "text-white" : ""
-            }`}
-            style={{
-              background: tab === "student" ? PRIMARY : "white",
-              color: tab === "student" ? "white" : PRIMARY,
-              borderColor: PRIMARY,
-            }}
-          >
-            Student
-          </button>
-          <button
-            onClick={() => setTab("professor")}
-            className={`px-3 py-1.5 rounded-lg text-sm border ${
-              tab === "professor" ? "text-white" : ""
-            }`}
-            style={{
-              background: tab === "professor" ? PRIMARY : "white",
-              color: tab === "professor" ? "white" : PRIMARY,
-              borderColor: PRIMARY,
-            }}
-          >
-            Professor
-          </button>
-          {/* 🧹 Reset Portal */}
+          {user && (
+            <>
+              <div className="relative">
+                <button
+                  onClick={() => setInboxOpen((o) => !o)}
+                  className="relative p-2 rounded-lg border"
+                  style={{ borderColor: PRIMARY, color: PRIMARY }}
+                  aria-label={`Notifications (${unread} unread)`}
+                >
+                  <Bell className="h-4 w-4" />
+                  {unread > 0 && (
+                    <span
+                      className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full text-xs text-white flex items-center justify-center"
+                      style={{ background: PRIMARY }}
+                    >
+                      {unread > 99 ? "99+" : unread}
+                    </span>
+                  )}
+                </button>
+                {inboxOpen && (
+                  <div className="absolute right-0 mt-2 w-96 bg-white border rounded-xl shadow-lg z-20">
+                    <div className="flex items-center justify-between px-4 py-2 border-b">
+                      <div className="font-medium" style={{ color: PRIMARY }}>
+                        Notifications
+                      </div>
+                      <button
+                        onClick={onMarkAllRead}
+                        disabled={unread === 0}
+                        className="text-xs underline disabled:opacity-50"
+                        style={{ color: PRIMARY }}
+                      >
+                        Mark all read
+                      </button>
+                    </div>
+                    <div className="max-h-96 overflow-y-auto">
+                      {notices.length === 0 && (
+                        <div className="px-4 py-6 text-sm text-gray-500 text-center">
+                          No notifications yet.
+                        </div>
+                      )}
+                      {notices.map((n) => (
+                        <button
+                          key={n.id}
+                          onClick={() => {
+                            onOpenNotice(n);
+                            setInboxOpen(false);
+                          }}
+                          className={`w-full text-left px-4 py-2 border-b last:border-b-0 flex gap-2 ${
+                            n.read ? "" : "bg-rose-50"
+                          }`}
+                        >
+                          <span
+                            className="mt-1.5 h-2 w-2 rounded-full shrink-0"
+                            style={{
+                              background: n.read ? "transparent" : PRIMARY,
+                            }}
+                          />
+                          <span>
+                            <span className="block text-sm font-medium">
+                              {n.title}
+                            </span>
+                            <span className="block text-sm text-gray-600">
+                              {n.body}
+                            </span>
+                            <span className="block text-xs text-gray-500">
+                              {new Date(n.at).toLocaleString()}
+                            </span>
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-right">
+                <div className="font-medium" style={{ color: PRIMARY }}>
+                  {user.name}
+                </div>
+                <div className="text-xs text-gray-600">
+                  {ROLE_LABEL[user.role]}
+                </div>
+              </div>
+              <button
+                onClick={() => {
+                  setInboxOpen(false);
+                  onSignOut();
+                }}
+                className="px-3 py-1.5 rounded-lg text-sm border inline-flex items-center gap-1"
+                style={{ color: PRIMARY, borderColor: PRIMARY }}
+              >
+                <LogOut className="h-4 w-4" />
+                Sign out
+              </button>
+            </>
+          )}
+          {/* 🧹 Reset Portal */}
           <button
             onClick={() => {
               localStorage.clear();
-              window.location.reload();
+              documentStore
+                .clear()
+                .catch(() => {
+                  // ignore
+                })
+                .finally(() => window.location.reload());
             }}
             className="px-3 py-1.5 rounded-lg text-sm border"
             style={{ background: "white", color: PRIMARY, borderColor: PRIMARY }}
@@ -364,7 +1632,7 @@ function Header(props: {
           </button>
         </div>
       </div>
-      {tab === "student" && (
+      {user?.role === "student" && (
         <div className="w-full px-6 pb-2 flex gap-2 max-w-6xl mx-auto">
           <button
             onClick={() => setStudentSubTab("postings")}
@@ -401,18 +1669,62 @@ function Header(props: {
   );
 }
 
+// ---------------- Sign in ----------------
+function SignIn(props: { users: User[]; onSignIn: (user: User) => void }) {
+  const { users, onSignIn } = props;
+  const roles: Role[] = ["student", "professor", "coordinator"];
+
+  return (
+    <div className="mx-auto max-w-md rounded-2xl border bg-white p-6 grid gap-4">
+      <div>
+        <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
+          Sign in
+        </h2>
+        <p className="text-sm text-gray-600">
+          Demo identity provider: pick an account. Students, professors and
+          the coordinator each only see their own part of the portal.
+        </p>
+      </div>
+      {roles.map((role) => (
+        <div key={role} className="grid gap-2">
+          <div className="text-xs font-medium text-gray-500">
+            {ROLE_LABEL[role]}
+          </div>
+          {users
+            .filter((u) => u.role === role)
+            .map((u) => (
+              <button
+                key={u.id}
+                className="border rounded-lg px-3 py-2 text-sm text-left"
+                style={{ borderColor: PRIMARY, color: PRIMARY }}
+                onClick={() => onSignIn(u)}
+              >
+                {u.name}
+              </button>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // ---------------- Student: Browse-only ----------------
 function StudentBrowse(props: {
-  postings: any[];
-  applications: any[];
+  clock: AppClock;
+  timetable: TimetableEntry[];
+  postings: Posting[];
+  applications: Application[];
   onSubmitted: (code: string) => void;
-  setApplications: React.Dispatch<React.SetStateAction<any[]>>;
-  defaultResume: File | null;
-  defaultTranscript: File | null;
-  setDefaultResume: (f: File | null) => void;
-  setDefaultTranscript: (f: File | null) => void;
+  setApplications: React.Dispatch<React.SetStateAction<Application[]>>;
+  defaultResume: StoredDocument | null;
+  defaultTranscript: StoredDocument | null;
+  setDefaultResume: (d: StoredDocument | null) => void;
+  setDefaultTranscript: (d: StoredDocument | null) => void;
+  profile: StudentProfile;
 }) {
   const {
+    clock,
+    timetable,
     postings,
     applications,
     onSubmitted,
@@ -421,19 +1733,33 @@ function StudentBrowse(props: {
     defaultTranscript,
     setDefaultResume,
     setDefaultTranscript,
+    profile,
   } = props;
-  const [active, setActive] = useState<any | null>(null);
+  const [active, setActive] = useState<Posting | null>(null);
+  // file being previewed before submitting
+  const [previewing, setPreviewing] = useState<ViewableDocument | null>(null);
   const [q, setQ] = useState("");
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = usePersistedState(browseFiltersKey);
+  const now = useNow(clock);
 
   const filtered = useMemo(() => {
     const s = q.trim().toLowerCase();
-    if (!s) return postings;
-    return postings.filter((p) =>
-      [p.code, p.title, p.professor].some((f: string) =>
-        f.toLowerCase().includes(s)
-      )
-    );
-  }, [q, postings]);
+    const matches = !s
+      ? postings
+      : postings.filter((p) =>
+          [p.code, p.title, p.professor].some((f) =>
+            f.toLowerCase().includes(s)
+          )
+        );
+    return applyBrowseFilters(matches, filters, {
+      now,
+      applications,
+      classes: timetable,
+    });
+  }, [q, postings, filters, now, applications, timetable]);
+
+  const activeFilters = activeFilterCount(filters);
 
   return (
     <div className="grid gap-6">
@@ -456,19 +1782,43 @@ function StudentBrowse(props: {
           </div>
           <button
             className="border rounded-xl px-3 py-2 text-sm flex items-center gap-1"
-            style={{ borderColor: PRIMARY, color: PRIMARY }}
+            style={{
+              borderColor: PRIMARY,
+              color: showFilters ? "white" : PRIMARY,
+              background: showFilters ? PRIMARY : "white",
+            }}
+            onClick={() => setShowFilters((v) => !v)}
           >
             <Filter className="h-4 w-4" />
             Filters
+            {activeFilters > 0 && (
+              <span className="text-xs">({activeFilters})</span>
+            )}
           </button>
         </div>
 
+        {showFilters && (
+          <FilterPanel
+            filters={filters}
+            setFilters={setFilters}
+            professors={[...new Set(postings.map((p) => p.professor))].sort()}
+          />
+        )}
+
+        {filtered.length === 0 && (
+          <div className="rounded-2xl border bg-white p-6 text-center text-sm text-gray-600">
+            No postings match your search and filters.
+          </div>
+        )}
+
         <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
           {filtered.map((p) => {
             // 只把非 withdrawn 的申请算作“已申请”
             const hasApplied = applications.some(
               (a) => a.postingId === p.id && a.status !== "withdrawn"
             );
+            const state = postingState(p, now);
+            const closed = state !== "open";
 
             return (
               <div
@@ -483,21 +1833,32 @@ function StudentBrowse(props: {
                   </div>
                   <div>
                     <span className="font-medium">Your previous grade:</span>{" "}
-                    {p.studentPrevGrade}
+                    {courseGrade(profile, p.code) ?? "—"}
                   </div>
                   <div>
                     <span className="font-medium">Class time:</span>{" "}
-                    {p.classTime}
+                    {formatMeetings(p.classMeetings)}
                   </div>
+                  {p.deadline !== null && (
+                    <div>
+                      <span className="font-medium">Deadline:</span>{" "}
+                      {new Date(p.deadline).toLocaleString()}
+                    </div>
+                  )}
                 </dl>
 
-                {/* 状态标签：closed / 已申请 */}
-                {p.closed && (
-                  <span className="mt-2 inline-flex items-center px-2 py-1 rounded-full text-xs bg-gray-200 text-gray-700">
-                    Applications closed
+                {/* 状态标签：closed / upcoming / countdown / 已申请 */}
+                {state === "open" ? (
+                  <span className="mt-2 inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-amber-50 text-amber-800 self-start">
+                    <Clock className="h-3 w-3" />
+                    {countdownLabel(p, now)}
+                  </span>
+                ) : (
+                  <span className="mt-2 inline-flex items-center px-2 py-1 rounded-full text-xs bg-gray-200 text-gray-700 self-start">
+                    {countdownLabel(p, now)}
                   </span>
                 )}
-                {!p.closed && hasApplied && (
+                {!closed && hasApplied && (
                   <span className="mt-2 inline-flex items-center px-2 py-1 rounded-full text-xs bg-emerald-50 text-emerald-700">
                     Already applied
                   </span>
@@ -506,27 +1867,29 @@ function StudentBrowse(props: {
                 {/* Apply 按钮：没申请时可点，申请后灰掉；withdraw 后可重新变成可点 */}
                 <button
                   onClick={() => {
-                    if (!p.closed && !hasApplied) {
+                    if (!closed && !hasApplied) {
                       setActive(p); // 只有“第一次 / withdraw 后重新申请”才弹出表单
                     }
                   }}
-                  disabled={p.closed || hasApplied}
+                  disabled={closed || hasApplied}
                   className="mt-3 w-full rounded-xl px-3 py-2 text-sm font-medium disabled:cursor-not-allowed"
                   style={{
                     background:
-                      p.closed || hasApplied ? "#E5E7EB" : PRIMARY,
+                      closed || hasApplied ? "#E5E7EB" : PRIMARY,
                     color:
-                      p.closed || hasApplied ? "#6B7280" : "white",
+                      closed || hasApplied ? "#6B7280" : "white",
                   }}
                 >
-                  {p.closed
+                  {state === "upcoming"
+                    ? "Not open yet"
+                    : closed
                     ? "Closed"
                     : hasApplied
                     ? "Applied"
                     : "Apply"}
                 </button>
 
-                {hasApplied && !p.closed && (
+                {hasApplied && !closed && (
                   <p className="mt-1 text-[11px] text-gray-500">
                     To edit this application, go to{" "}
                     <span className="font-semibold">My Applications</span>.
@@ -542,28 +1905,70 @@ function StudentBrowse(props: {
         <Dialog onClose={() => setActive(null)}>
           <PostingDetails
             posting={active}
+            grade={courseGrade(profile, active.code)}
+            now={now}
+            timetable={timetable}
             defaultResume={defaultResume}
             defaultTranscript={defaultTranscript}
-            onApply={(payload) => {
+            onPreview={setPreviewing}
+            onApply={async (payload) => {
+              // the deadline may have passed while the form was open
+              const latest = postings.find((p) => p.id === active.id);
+              if (!latest || !isAcceptingApplications(latest, clock.now())) {
+                alert("Sorry, this posting is no longer accepting applications.");
+                return;
+              }
+              // instructors need to know who is applying
+              if (!isProfileComplete(profile)) {
+                alert(
+                  "Complete your profile under My Applications before applying."
+                );
+                return;
+              }
+
               // 找这门课是否有“非 withdrawn 的现有申请”
               const existing = applications.find(
                 (a) => a.postingId === active.id && a.status !== "withdrawn"
               );
 
               // 先决定这次真正要用哪份 resume / transcript
-              const chosenResume =
-                payload.resume || existing?.resume || null;
-              const chosenTranscript =
+              const pickedResume = payload.resume || existing?.resume || null;
+              const pickedTranscript =
                 payload.transcript || existing?.transcript || null;
 
               const result = validateApplicationInputs({
-                resume: chosenResume,
-                transcript: chosenTranscript,
+                resume: pickedResume,
+                transcript: pickedTranscript,
               });
               if (!result.ok) {
                 alert(result.msg);
                 return;
               }
+              // what's attached this time (new files or saved defaults)
+              const content = await validateNewUploads([
+                [payload.resume, "Resume"],
+                [payload.transcript, "Transcript"],
+              ]);
+              if (!content.ok) {
+                alert(content.msg);
+                return;
+              }
+
+              // new uploads go to the document store; the app keeps refs only
+              let chosenResume: StoredDocument | null;
+              let chosenTranscript: StoredDocument | null;
+              try {
+                chosenResume = await persistUpload(pickedResume, clock.now());
+                chosenTranscript = await persistUpload(
+                  pickedTranscript,
+                  clock.now()
+                );
+              } catch {
+                alert(
+                  "Could not save your files in this browser. Please try again."
+                );
+                return;
+              }
 
               // 询问是否设置/覆盖 default resume
               if (chosenResume) {
@@ -574,7 +1979,7 @@ function StudentBrowse(props: {
                   if (wantsDefault) {
                     setDefaultResume(chosenResume);
                   }
-                } else if (chosenResume !== defaultResume) {
+                } else if (chosenResume.id !== defaultResume.id) {
                   const overwrite = window.confirm(
                     "You already have a default resume. Replace it with this file?"
                   );
@@ -593,7 +1998,7 @@ function StudentBrowse(props: {
                   if (wantsDefault) {
                     setDefaultTranscript(chosenTranscript);
                   }
-                } else if (chosenTranscript !== defaultTranscript) {
+                } else if (chosenTranscript.id !== defaultTranscript.id) {
                   const overwrite = window.confirm(
                     "You already have a default transcript. Replace it with this file?"
                   );
@@ -610,6 +2015,7 @@ function StudentBrowse(props: {
                     a.id === existing.id
                       ? {
                           ...a,
+                          student: profile,
                           resume: chosenResume,
                           transcript: chosenTranscript,
                           note:
@@ -624,16 +2030,26 @@ function StudentBrowse(props: {
                 setActive(null);
                 onSubmitted(`${active.code} updated`);
               } else {
-                const app = {
+                const now = clock.now();
+                const app: Application = {
                   id: cryptoId(),
                   postingId: active.id,
                   course: active.title,
+                  courseCode: active.code,
+                  student: profile,
                   status: "submitted",
                   resume: chosenResume,
                   transcript: chosenTranscript,
                   note: payload.note || "",
-                  nextStep: "Awaiting review",
-                  createdAt: Date.now(),
+                  nextStep: DEFAULT_NEXT_STEP.submitted,
+                  createdAt: now,
+                  history: [submittedEntry(now)],
+                  scores: {},
+                  offer: null,
+                  preference: null,
+                  reviews: [],
+                  revealed: null,
+                  classes: toClasses(timetable),
                 };
                 setApplications((a) => [app, ...a]);
                 setActive(null);
@@ -643,89 +2059,275 @@ function StudentBrowse(props: {
           />
         </Dialog>
       )}
+
+      {previewing && (
+        <Dialog onClose={() => setPreviewing(null)}>
+          <PdfViewer doc={previewing} />
+        </Dialog>
+      )}
+    </div>
+  );
+}
+
+function FilterPanel(props: {
+  filters: BrowseFilters;
+  setFilters: React.Dispatch<React.SetStateAction<BrowseFilters>>;
+  professors: string[];
+}) {
+  const { filters, setFilters, professors } = props;
+  const set = <K extends keyof BrowseFilters>(k: K, v: BrowseFilters[K]) =>
+    setFilters((f) => ({ ...f, [k]: v }));
+  const toggleDay = (d: Weekday) =>
+    set(
+      "tutorialDays",
+      filters.tutorialDays.includes(d)
+        ? filters.tutorialDays.filter((x) => x !== d)
+        : [...filters.tutorialDays, d]
+    );
+
+  return (
+    <div
+      className="rounded-2xl border bg-white p-4 grid sm:grid-cols-2 lg:grid-cols-3 gap-4 text-sm"
+      style={{ borderColor: PRIMARY }}
+    >
+      <label className="grid gap-1">
+        <span className="font-medium">Availability</span>
+        <select
+          className="border rounded-lg px-2 py-1"
+          value={filters.availability}
+          onChange={(e) =>
+            set(
+              "availability",
+              e.target.value as BrowseFilters["availability"]
+            )
+          }
+        >
+          <option value="all">All postings</option>
+          <option value="open">Open only</option>
+          <option value="upcoming">Not open yet</option>
+          <option value="closed">Closed only</option>
+        </select>
+      </label>
+
+      <label className="grid gap-1">
+        <span className="font-medium">Professor</span>
+        <select
+          className="border rounded-lg px-2 py-1"
+          value={filters.professor}
+          onChange={(e) => set("professor", e.target.value)}
+        >
+          <option value="">Any professor</option>
+          {professors.map((p) => (
+            <option key={p} value={p}>
+              {p}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="grid gap-1">
+        <span className="font-medium">Sort by</span>
+        <select
+          className="border rounded-lg px-2 py-1"
+          value={filters.sort}
+          onChange={(e) => set("sort", e.target.value as BrowseSort)}
+        >
+          <option value="deadline">Deadline (soonest first)</option>
+          <option value="code">Course code</option>
+          <option value="compatibility">Most compatible schedule</option>
+        </select>
+      </label>
+
+      <div className="grid gap-1">
+        <span className="font-medium">Tutorial day</span>
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.slice(0, 5).map((d) => {
+            const on = filters.tutorialDays.includes(d);
+            return (
+              <button
+                key={d}
+                className="border rounded-md px-2 py-0.5 text-xs"
+                style={{
+                  borderColor: PRIMARY,
+                  background: on ? PRIMARY : "white",
+                  color: on ? "white" : PRIMARY,
+                }}
+                onClick={() => toggleDay(d)}
+              >
+                {d}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid gap-1">
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={filters.conflictFreeOnly}
+            onChange={(e) => set("conflictFreeOnly", e.target.checked)}
+          />
+          Has a tutorial that fits my timetable
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={filters.notYetApplied}
+            onChange={(e) => set("notYetApplied", e.target.checked)}
+          />
+          Not yet applied
+        </label>
+      </div>
+
+      <div className="flex items-end">
+        <button
+          className="border rounded-lg px-3 py-1 text-xs"
+          style={{ borderColor: PRIMARY, color: PRIMARY }}
+          onClick={() => setFilters(DEFAULT_BROWSE_FILTERS)}
+        >
+          Reset filters
+        </button>
+      </div>
     </div>
   );
 }
 
 // ---------------- Student: Account (shows status + saved docs) ----------------
 function StudentAccount(props: {
-  applications: any[];
-  setApplications: React.Dispatch<React.SetStateAction<any[]>>;
-  defaultResume: File | null;
-  defaultTranscript: File | null;
-  setDefaultResume: (f: File | null) => void;
-  setDefaultTranscript: (f: File | null) => void;
+  clock: AppClock;
+  postings: Posting[];
+  timetable: TimetableEntry[];
+  setTimetable: React.Dispatch<React.SetStateAction<TimetableEntry[]>>;
+  applications: Application[];
+  setApplications: React.Dispatch<React.SetStateAction<Application[]>>;
+  interviewSlots: InterviewSlot[];
+  setInterviewSlots: React.Dispatch<React.SetStateAction<InterviewSlot[]>>;
+  defaultResume: StoredDocument | null;
+  defaultTranscript: StoredDocument | null;
+  setDefaultResume: (d: StoredDocument | null) => void;
+  setDefaultTranscript: (d: StoredDocument | null) => void;
+  profile: StudentProfile;
+  setProfile: (p: StudentProfile) => void;
+  /** application to open (from a notification), cleared via onFocused */
+  focusAppId: string | null;
+  onFocused: () => void;
 }) {
   const {
+    clock,
+    postings,
+    timetable,
+    setTimetable,
     applications,
     setApplications,
+    interviewSlots,
+    setInterviewSlots,
     defaultResume,
     defaultTranscript,
     setDefaultResume,
     setDefaultTranscript,
+    profile,
+    setProfile,
+    focusAppId,
+    onFocused,
   } = props;
 
-  const [activeApp, setActiveApp] = useState<any | null>(null);
+  const [activeApp, setActiveApp] = useState<Application | null>(null);
   const [editNote, setEditNote] = useState("");
-  const [editResume, setEditResume] = useState<any | null>(null);
-  const [editTranscript, setEditTranscript] = useState<any | null>(null);
+  const now = useNow(clock);
 
-  const handleOpenApp = (app: any) => {
+  const acceptedPostings = postings.filter((p) =>
+    applications.some(
+      (a) => a.postingId === p.id && a.status === "offer-accepted"
+    )
+  );
+  // ranking used by the department matching run
+  const ranked = byPreference(applications.filter(canRank));
+  const [editResume, setEditResume] = useState<File | null>(null);
+  const [editTranscript, setEditTranscript] = useState<File | null>(null);
+  // resume / transcript open in the PDF viewer
+  const [viewing, setViewing] = useState<ViewableDocument | null>(null);
+
+  const handleOpenApp = useCallback((app: Application) => {
     setActiveApp(app);
     setEditNote(app.note || "");
     setEditResume(null);
     setEditTranscript(null);
-  };
+  }, []);
 
-  const handleSaveChanges = () => {
-    if (!activeApp) return;
+  useEffect(() => {
+    if (!focusAppId) return;
+    const app = applications.find((a) => a.id === focusAppId);
+    if (app) handleOpenApp(app);
+    onFocused();
+  }, [focusAppId, applications, handleOpenApp, onFocused]);
 
-    const finalResume = editResume || activeApp.resume;
-    const finalTranscript = editTranscript || activeApp.transcript;
+  const handleSaveChanges = async () => {
+    if (!activeApp) return;
 
     const result = validateApplicationInputs({
-      resume: finalResume,
-      transcript: finalTranscript,
+      resume: editResume || activeApp.resume,
+      transcript: editTranscript || activeApp.transcript,
     });
     if (!result.ok) {
       alert(result.msg);
       return;
     }
+    const content = await validateNewUploads([
+      [editResume, "Resume"],
+      [editTranscript, "Transcript"],
+    ]);
+    if (!content.ok) {
+      alert(content.msg);
+      return;
+    }
+
+    let newResume: StoredDocument | null;
+    let newTranscript: StoredDocument | null;
+    try {
+      newResume = await persistUpload(editResume, clock.now());
+      newTranscript = await persistUpload(editTranscript, clock.now());
+    } catch {
+      alert("Could not save your files in this browser. Please try again.");
+      return;
+    }
+    const finalResume = newResume || activeApp.resume;
+    const finalTranscript = newTranscript || activeApp.transcript;
 
     // 如果这次真的上传了新 resume，则问要不要设/覆盖 default
-    if (editResume) {
+    if (newResume) {
       if (!defaultResume) {
         const wantsDefault = window.confirm(
           "Do you want to save this resume as your default resume for future applications?"
         );
         if (wantsDefault) {
-          setDefaultResume(editResume);
+          setDefaultResume(newResume);
         }
-      } else if (editResume !== defaultResume) {
+      } else {
         const overwrite = window.confirm(
           "You already have a default resume. Replace it with this file?"
         );
         if (overwrite) {
-          setDefaultResume(editResume);
+          setDefaultResume(newResume);
         }
       }
     }
 
     // 如果这次真的上传了新 transcript，则问要不要设/覆盖 default
-    if (editTranscript) {
+    if (newTranscript) {
       if (!defaultTranscript) {
         const wantsDefault = window.confirm(
           "Do you want to save this transcript as your default transcript?"
         );
         if (wantsDefault) {
-          setDefaultTranscript(editTranscript);
+          setDefaultTranscript(newTranscript);
         }
-      } else if (editTranscript !== defaultTranscript) {
+      } else {
         const overwrite = window.confirm(
           "You already have a default transcript. Replace it with this file?"
         );
         if (overwrite) {
-          setDefaultTranscript(editTranscript);
+          setDefaultTranscript(newTranscript);
         }
       }
     }
@@ -745,22 +2347,57 @@ function StudentAccount(props: {
     setActiveApp(null);
   };
 
+  // Saved documents panel: store the blob first, then point the default at it
+  const saveDefault = async (
+    file: File | null,
+    label: string,
+    set: (d: StoredDocument | null) => void
+  ) => {
+    if (!file) return;
+    const check = await validateNewUploads([[file, label]]);
+    if (!check.ok) {
+      alert(check.msg);
+      return;
+    }
+    try {
+      set(await documentStore.put(file, clock.now()));
+    } catch {
+      alert("Could not save this file in your browser. Please try again.");
+    }
+  };
+
   const handleWithdraw = (id: string) => {
     const sure = window.confirm(
       "Are you sure you want to withdraw this application?"
     );
     if (!sure) return;
-    setApplications((list) =>
-      list.map((a) =>
-        a.id === id
-          ? {
-              ...a,
-              status: "withdrawn",
-              nextStep: "Application withdrawn by student",
-            }
-          : a
-      )
+    const app = applications.find((a) => a.id === id);
+    if (!app) return;
+    let next: Application;
+    try {
+      next = transition(app, "withdrawn", "student");
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    }
+    setApplications((list) => list.map((a) => (a.id === id ? next : a)));
+  };
+
+  const handleOfferResponse = (app: Application, accept: boolean) => {
+    const sure = window.confirm(
+      accept
+        ? `Accept the TA offer for ${app.course}?`
+        : `Decline the TA offer for ${app.course}? This cannot be undone.`
     );
+    if (!sure) return;
+    let next: Application;
+    try {
+      next = respondToOffer(app, accept, clock.now());
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    }
+    setApplications((list) => list.map((a) => (a.id === app.id ? next : a)));
   };
 
   const handleDelete = (id: string) => {
@@ -773,15 +2410,23 @@ function StudentAccount(props: {
 
   return (
     <section className="grid gap-4">
+      <ProfileEditor
+        profile={profile}
+        onSave={(next) => {
+          setProfile(next);
+          setApplications((list) => attachProfile(list, next));
+        }}
+      />
+
       {/* Saved documents panel – 文档库 / Quick Apply */}
       <div className="rounded-2xl border bg-white p-4">
         <h3 className="text-sm font-semibold" style={{ color: PRIMARY }}>
           Saved documents (prototype)
         </h3>
         <p className="text-xs text-gray-600 mt-1">
-          Set a default resume and transcript to reuse across applications.
-          In this prototype, files are only stored in your current browser
-          session (a real system would save them on the server).
+          Set a default resume and transcript to reuse across applications
+          ({PDF_LIMITS}). In this prototype, files are stored in this browser only (a real
+          system would save them on the server).
         </p>
         <div className="mt-3 grid sm:grid-cols-2 gap-3 text-sm">
           <div className="grid gap-1">
@@ -789,11 +2434,17 @@ function StudentAccount(props: {
             <input
               type="file"
               accept=".pdf,application/pdf"
-              onChange={(e) => setDefaultResume(e.target.files?.[0] || null)}
+              onChange={(e) =>
+                saveDefault(
+                  e.target.files?.[0] || null,
+                  "Resume",
+                  setDefaultResume
+                )
+              }
             />
             <span className="text-xs text-gray-500">
               {defaultResume
-                ? `Current: ${defaultResume.name}`
+                ? `Current: ${describeDoc(defaultResume)}`
                 : "Not set yet."}
             </span>
           </div>
@@ -805,27 +2456,101 @@ function StudentAccount(props: {
               type="file"
               accept=".pdf,application/pdf"
               onChange={(e) =>
-                setDefaultTranscript(e.target.files?.[0] || null)
+                saveDefault(
+                  e.target.files?.[0] || null,
+                  "Transcript",
+                  setDefaultTranscript
+                )
               }
             />
             <span className="text-xs text-gray-500">
               {defaultTranscript
-                ? `Current: ${defaultTranscript.name}`
+                ? `Current: ${describeDoc(defaultTranscript)}`
                 : "Not set yet."}
             </span>
           </div>
         </div>
       </div>
 
+      <TimetableEditor timetable={timetable} setTimetable={setTimetable} />
+
       {/* My Applications 列表 */}
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
           My Applications
         </h2>
-        <div className="text-xs text-gray-600">
-          Status is only visible here (not on Postings).
+        <div className="flex items-center gap-3">
+          <div className="text-xs text-gray-600">
+            Status is only visible here (not on Postings).
+          </div>
+          <button
+            className="border rounded-lg px-3 py-1 text-xs inline-flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+            style={{ borderColor: PRIMARY, color: PRIMARY }}
+            disabled={acceptedPostings.length === 0}
+            title={
+              acceptedPostings.length === 0
+                ? "Available once you have an accepted position"
+                : undefined
+            }
+            onClick={() =>
+              downloadCalendar(
+                "my-ta-positions.ics",
+                "My TA positions",
+                acceptedPostings.flatMap((p) =>
+                  postingCalendarEvents(p, { includeLecture: true })
+                )
+              )
+            }
+          >
+            <Download className="h-3 w-3" />
+            Export accepted positions (.ics)
+          </button>
         </div>
       </div>
+      {ranked.length > 1 && (
+        <div className="rounded-2xl border bg-white p-4 grid gap-2 text-sm">
+          <div className="font-medium" style={{ color: PRIMARY }}>
+            Course preferences
+          </div>
+          <p className="text-xs text-gray-500">
+            Rank the courses you applied to. The department uses your ranking
+            to give you at most one position, the highest one you can get.
+          </p>
+          <ol className="grid gap-1">
+            {ranked.map((a, i) => (
+              <li
+                key={a.id}
+                className="flex items-center gap-2 rounded-lg border px-3 py-1.5"
+              >
+                <span className="w-6 text-gray-500">{i + 1}.</span>
+                <span>{a.course}</span>
+                <span className="ml-auto flex gap-1">
+                  <button
+                    className="border rounded-lg px-2 py-0.5 text-xs disabled:opacity-40"
+                    disabled={i === 0}
+                    onClick={() =>
+                      setApplications((list) => movePreference(list, a.id, -1))
+                    }
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="border rounded-lg px-2 py-0.5 text-xs disabled:opacity-40"
+                    disabled={i === ranked.length - 1}
+                    onClick={() =>
+                      setApplications((list) => movePreference(list, a.id, 1))
+                    }
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
       {applications.length === 0 ? (
         <div className="rounded-2xl border bg-white p-8 text-center">
           <div className="font-medium" style={{ color: PRIMARY }}>
@@ -837,53 +2562,98 @@ function StudentAccount(props: {
         </div>
       ) : (
         <div className="grid gap-3">
-          {applications.map((a) => (
-            <div key={a.id} className="rounded-2xl border bg-white p-4">
-              <div className="font-medium" style={{ color: PRIMARY }}>
-                {a.course}
-              </div>
-              <div className="text-sm text-gray-600">
-                {a.postingId} • {new Date(a.createdAt).toLocaleString()}
-              </div>
-              <div className="mt-2 flex items-center gap-2">
-                <StatusChip status={a.status} />
-                {a.nextStep && (
-                  <span className="text-xs text-gray-700">
-                    Next step:{" "}
-                    <span className="font-semibold">{a.nextStep}</span>
-                  </span>
-                )}
-                <div className="ml-auto flex gap-2">
-                  <button
-                    className="border rounded-lg px-3 py-1 text-xs"
-                    style={{ borderColor: PRIMARY, color: PRIMARY }}
-                    onClick={() => handleOpenApp(a)}
-                  >
-                    View / Edit
-                  </button>
-                  {/* active 状态可 Withdraw；withdrawn 状态可 Delete */}
-                  {a.status !== "withdrawn" &&
-                    a.status !== "rejected" &&
-                    a.status !== "accepted" && (
+          {applications.map((a) => {
+            const interview = bookedSlot(interviewSlots, a.id);
+            return (
+              <div key={a.id} className="rounded-2xl border bg-white p-4">
+                <div className="font-medium" style={{ color: PRIMARY }}>
+                  {a.course}
+                </div>
+                <div className="text-sm text-gray-600">
+                  {a.courseCode} • {new Date(a.createdAt).toLocaleString()}
+                </div>
+                <div className="mt-2 flex items-center gap-2">
+                  <StatusChip status={a.status} />
+                  {a.nextStep && (
+                    <span className="text-xs text-gray-700">
+                      Next step:{" "}
+                      <span className="font-semibold">{a.nextStep}</span>
+                    </span>
+                  )}
+                  <div className="ml-auto flex gap-2">
+                    <button
+                      className="border rounded-lg px-3 py-1 text-xs"
+                      style={{ borderColor: PRIMARY, color: PRIMARY }}
+                      onClick={() => handleOpenApp(a)}
+                    >
+                      View / Edit
+                    </button>
+                    {/* active 状态可 Withdraw；withdrawn 状态可 Delete */}
+                    {canTransition(a.status, "withdrawn", "student") && (
+                        <button
+                          className="border rounded-lg px-3 py-1 text-xs text-red-700 border-red-300"
+                          onClick={() => handleWithdraw(a.id)}
+                        >
+                          Withdraw
+                        </button>
+                      )}
+                    {a.status === "withdrawn" && (
                       <button
                         className="border rounded-lg px-3 py-1 text-xs text-red-700 border-red-300"
-                        onClick={() => handleWithdraw(a.id)}
+                        onClick={() => handleDelete(a.id)}
                       >
-                        Withdraw
+                        Delete
                       </button>
                     )}
-                  {a.status === "withdrawn" && (
-                    <button
-                      className="border rounded-lg px-3 py-1 text-xs text-red-700 border-red-300"
-                      onClick={() => handleDelete(a.id)}
-                    >
-                      Delete
-                    </button>
-                  )}
+                  </div>
                 </div>
+                {a.status === "offered" && a.offer && (
+                  <div
+                    className="mt-3 rounded-xl border p-3 text-sm flex flex-wrap items-center gap-2"
+                    style={{ borderColor: "#F59E0B", background: "#FFFBEB" }}
+                  >
+                    <span>
+                      Respond by{" "}
+                      <span className="font-semibold">
+                        {new Date(a.offer.respondBy).toLocaleString()}
+                      </span>{" "}
+                      ({formatDuration(a.offer.respondBy - now)} left)
+                    </span>
+                    <span className="ml-auto flex gap-2">
+                      <button
+                        className="border rounded-lg px-3 py-1 text-xs text-white"
+                        style={{ background: "#16A34A", borderColor: "#16A34A" }}
+                        onClick={() => handleOfferResponse(a, true)}
+                      >
+                        Accept offer
+                      </button>
+                      <button
+                        className="border rounded-lg px-3 py-1 text-xs text-red-700 border-red-300"
+                        onClick={() => handleOfferResponse(a, false)}
+                      >
+                        Decline
+                      </button>
+                    </span>
+                  </div>
+                )}
+                {interview && a.status !== "interview" && (
+                  <div className="mt-2 text-xs text-gray-700">
+                    Interview: {formatInterviewTime(interview)}
+                  </div>
+                )}
+                {a.status === "interview" && (
+                  <InterviewBooking
+                    app={a}
+                    applications={applications}
+                    slots={interviewSlots}
+                    setSlots={setInterviewSlots}
+                    timetable={timetable}
+                    now={now}
+                  />
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
 
@@ -898,9 +2668,20 @@ function StudentAccount(props: {
             <div className="rounded-xl border bg-white p-3 mt-3 grid gap-3">
               <div className="font-medium">Uploaded Files</div>
               <ul className="list-disc pl-5 text-sm space-y-1">
-                <li>Current resume: {activeApp.resume?.name || "N/A"}</li>
                 <li>
-                  Current transcript: {activeApp.transcript?.name || "N/A"}
+                  Current resume:{" "}
+                  {activeApp.resume ? describeDoc(activeApp.resume) : "N/A"}
+                  <ViewDocButton doc={activeApp.resume} onView={setViewing} />
+                </li>
+                <li>
+                  Current transcript:{" "}
+                  {activeApp.transcript
+                    ? describeDoc(activeApp.transcript)
+                    : "N/A"}
+                  <ViewDocButton
+                    doc={activeApp.transcript}
+                    onView={setViewing}
+                  />
                 </li>
               </ul>
               <div className="grid gap-2 text-sm">
@@ -916,6 +2697,7 @@ function StudentAccount(props: {
                   }
                   className="text-sm"
                 />
+                <ViewDocButton doc={editResume} onView={setViewing} />
                 <label className="font-medium flex items-center gap-2">
                   <Upload className="h-4 w-4" />
                   Replace transcript (PDF, optional)
@@ -928,6 +2710,7 @@ function StudentAccount(props: {
                   }
                   className="text-sm"
                 />
+                <ViewDocButton doc={editTranscript} onView={setViewing} />
               </div>
             </div>
 
@@ -945,6 +2728,11 @@ function StudentAccount(props: {
               </p>
             </div>
 
+            <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2">
+              <div className="text-sm font-medium">Status history</div>
+              <StatusTimeline history={activeApp.history} />
+            </div>
+
             <div className="mt-3 flex items-center gap-2">
               <button
                 className="border rounded-xl px-4 py-2 text-sm"
@@ -957,53 +2745,548 @@ function StudentAccount(props: {
           </div>
         </Dialog>
       )}
-    </section>
-  );
-}
 
-function StatusChip({ status }: { status: string }) {
-  const map =
-    {
-      submitted: { bg: "#FBE6F0", fg: PRIMARY, label: "Submitted" },
-      reviewed: { bg: "#FFEB99", fg: PRIMARY, label: "Reviewed" },
-      interview: { bg: "#E9F5FF", fg: "#0C4A6E", label: "Interview" },
-      accepted: { bg: "#E8F5E9", fg: "#1B5E20", label: "Accepted" },
-      rejected: { bg: "#FDE7EA", fg: PRIMARY, label: "Rejected" },
-      withdrawn: { bg: "#ECEFF1", fg: "#455A64", label: "Withdrawn" },
-    }[status] || { bg: "#EEE", fg: "#555", label: status };
-  return (
-    <span
-      className="text-xs font-semibold px-2 py-1 rounded-full"
-      style={{ background: map.bg, color: map.fg }}
-    >
-      {map.label}
-    </span>
+      {viewing && (
+        <Dialog onClose={() => setViewing(null)}>
+          <PdfViewer doc={viewing} />
+        </Dialog>
+      )}
+    </section>
   );
 }
 
-// ---------------- Posting Details ----------------
-function PostingDetails(props: {
-  posting: any;
-  onApply: (payload: {
-    resume: File | null;
-    transcript: File | null;
-    note: string;
-  }) => void;
-  defaultResume: File | null;
-  defaultTranscript: File | null;
+// ---------------- Student: Interview booking ----------------
+function InterviewBooking(props: {
+  app: Application;
+  applications: Application[];
+  slots: InterviewSlot[];
+  setSlots: React.Dispatch<React.SetStateAction<InterviewSlot[]>>;
+  timetable: TimetableEntry[];
+  now: number;
 }) {
-  const { posting, onApply, defaultResume, defaultTranscript } = props;
-  const [resume, setResume] = useState<File | null>(null);
-  const [transcript, setTranscript] = useState<File | null>(null);
-  const [note, setNote] = useState("");
-
-  // 是否使用文档库里的默认文件
-  const [useDefaultResume, setUseDefaultResume] = useState(!!defaultResume);
-  const [useDefaultTranscript, setUseDefaultTranscript] = useState(false);
+  const { app, applications, slots, setSlots, timetable, now } = props;
+  const booked = bookedSlot(slots, app.id);
+  const open = slots
+    .filter(
+      (s) =>
+        s.postingId === app.postingId && s.start > now && s.id !== booked?.id
+    )
+    .sort((a, b) => a.start - b.start);
 
-  const effectiveResume =
-    useDefaultResume && defaultResume ? defaultResume : resume;
-  const effectiveTranscript =
+  // same checks as booking; the message says why a slot can't be taken
+  const tryBook = (slotId: string) =>
+    bookInterview(slots, slotId, app, { timetable, applications }, now);
+  const problem = (slotId: string) => {
+    try {
+      tryBook(slotId);
+      return null;
+    } catch (err) {
+      return (err as Error).message;
+    }
+  };
+  const book = (slotId: string) => {
+    try {
+      setSlots(tryBook(slotId));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded-xl border bg-slate-50 p-3 text-sm grid gap-2">
+      <div className="font-medium flex items-center gap-2">
+        <Clock className="h-4 w-4" color={PRIMARY} />
+        {booked
+          ? `Interview booked: ${formatInterviewTime(booked)}`
+          : "Book your interview"}
+        {booked && (
+          <button
+            className="ml-auto border rounded-lg px-2 py-1 text-xs text-red-700 border-red-300"
+            onClick={() => {
+              if (window.confirm("Cancel your interview booking?")) {
+                setSlots((list) => cancelBooking(list, app.id));
+              }
+            }}
+          >
+            Cancel booking
+          </button>
+        )}
+      </div>
+      {open.length === 0 ? (
+        <div className="text-xs text-gray-600">
+          {booked
+            ? "No other times are available."
+            : "The professor hasn't published interview times yet."}
+        </div>
+      ) : (
+        <div className="grid gap-1">
+          {booked && <div className="text-xs text-gray-600">Or switch to:</div>}
+          {open.map((s) => {
+            const why = problem(s.id);
+            return (
+              <div key={s.id} className="flex items-center gap-2 text-xs">
+                <span className={why ? "text-gray-400" : ""}>
+                  {formatInterviewTime(s)}
+                </span>
+                {why && (
+                  <span className="text-red-700">
+                    {s.bookedBy ? "Taken" : "Conflict"}
+                  </span>
+                )}
+                <button
+                  className="ml-auto border rounded-lg px-2 py-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                  style={{ borderColor: PRIMARY, color: PRIMARY }}
+                  disabled={!!why}
+                  title={why ?? undefined}
+                  onClick={() => book(s.id)}
+                >
+                  {booked ? "Switch" : "Book"}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------- Student: Profile ----------------
+function ProfileEditor(props: {
+  profile: StudentProfile;
+  onSave: (profile: StudentProfile) => void;
+}) {
+  const { profile, onSave } = props;
+  const [draft, setDraft] = useState<ProfileDraft>(() =>
+    toProfileDraft(profile)
+  );
+  const set = <K extends keyof ProfileDraft>(k: K, v: ProfileDraft[K]) =>
+    setDraft((d) => ({ ...d, [k]: v }));
+  const setGrade = (i: number, patch: Partial<ProfileDraft["grades"][0]>) =>
+    set(
+      "grades",
+      draft.grades.map((g, j) => (j === i ? { ...g, ...patch } : g))
+    );
+
+  const save = () => {
+    const check = validateProfile(draft);
+    if (!check.ok) {
+      alert(check.msg);
+      return;
+    }
+    onSave(fromProfileDraft(draft));
+  };
+
+  const inputCls = "border rounded-lg px-2 py-1";
+
+  return (
+    <div className="rounded-2xl border bg-white p-4">
+      <h3 className="text-sm font-semibold" style={{ color: PRIMARY }}>
+        My profile
+      </h3>
+      <p className="text-xs text-gray-600 mt-1">
+        Sent with every application and shown to the course's instructors.
+        {!isProfileComplete(profile) &&
+          " Fill in your name, student number and email before applying."}
+      </p>
+      <div className="mt-3 grid sm:grid-cols-2 gap-3 text-sm">
+        <label className="grid gap-1">
+          <span className="font-medium">Full name</span>
+          <input
+            className={inputCls}
+            value={draft.name}
+            onChange={(e) => set("name", e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">Student number</span>
+          <input
+            className={inputCls}
+            inputMode="numeric"
+            value={draft.studentNumber}
+            onChange={(e) => set("studentNumber", e.target.value)}
+            placeholder="9 digits"
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">Email</span>
+          <input
+            type="email"
+            className={inputCls}
+            value={draft.email}
+            onChange={(e) => set("email", e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">Program</span>
+          <input
+            className={inputCls}
+            value={draft.program}
+            onChange={(e) => set("program", e.target.value)}
+            placeholder="e.g. Software Engineering"
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">Year of study</span>
+          <select
+            className={inputCls}
+            value={draft.year ?? ""}
+            onChange={(e) =>
+              set("year", e.target.value ? Number(e.target.value) : null)
+            }
+          >
+            <option value="">—</option>
+            {STUDY_YEARS.map((y) => (
+              <option key={y} value={y}>
+                Year {y}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 sm:col-span-2">
+          <span className="font-medium">Prior TA experience</span>
+          <textarea
+            className={inputCls}
+            rows={2}
+            value={draft.taExperience}
+            onChange={(e) => set("taExperience", e.target.value)}
+            placeholder="Courses you've been a TA for, marking, tutoring…"
+          />
+        </label>
+      </div>
+
+      <div className="mt-3 grid gap-2 text-sm">
+        <span className="font-medium">Course grades</span>
+        {draft.grades.length === 0 && (
+          <div className="text-gray-500 text-xs">No grades yet.</div>
+        )}
+        {draft.grades.map((g, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              className={`${inputCls} w-32`}
+              value={g.course}
+              onChange={(e) => setGrade(i, { course: e.target.value })}
+              placeholder="Course code"
+            />
+            <input
+              className={`${inputCls} w-20`}
+              value={g.grade}
+              onChange={(e) => setGrade(i, { grade: e.target.value })}
+              placeholder="Grade"
+            />
+            <button
+              className="border rounded-lg px-2 py-1 text-xs text-red-700 border-red-300"
+              onClick={() =>
+                set(
+                  "grades",
+                  draft.grades.filter((_, j) => j !== i)
+                )
+              }
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <button
+            className="border rounded-lg px-3 py-1 text-xs"
+            style={{ borderColor: PRIMARY, color: PRIMARY }}
+            onClick={() =>
+              set("grades", [...draft.grades, { course: "", grade: "" }])
+            }
+          >
+            Add grade
+          </button>
+          <button
+            className="ml-auto rounded-lg px-3 py-1 text-xs text-white"
+            style={{ background: PRIMARY }}
+            onClick={save}
+          >
+            Save profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---------------- Student: Timetable ----------------
+function TimetableEditor(props: {
+  timetable: TimetableEntry[];
+  setTimetable: React.Dispatch<React.SetStateAction<TimetableEntry[]>>;
+}) {
+  const { timetable, setTimetable } = props;
+
+  const update = (id: string, patch: Partial<TimetableEntry>) =>
+    setTimetable((list) =>
+      list.map((e) => (e.id === id ? { ...e, ...patch } : e))
+    );
+
+  const importIcs = async (file: File | null) => {
+    if (!file) return;
+    const { entries, skipped } = parseIcsTimetable(await file.text(), cryptoId);
+    if (entries.length === 0) {
+      alert(
+        "No weekly classes found in this file. Export your timetable as an " +
+          ".ics calendar with recurring (weekly) events."
+      );
+      return;
+    }
+    const replace =
+      timetable.length === 0 ||
+      window.confirm(
+        `Found ${entries.length} weekly class(es). Replace your current ` +
+          "timetable? (Cancel adds them to it instead.)"
+      );
+    setTimetable((list) => (replace ? entries : [...list, ...entries]));
+    if (skipped > 0) {
+      alert(
+        `${skipped} event(s) were skipped (one-off, all-day or not weekly).`
+      );
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border bg-white p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold" style={{ color: PRIMARY }}>
+          My timetable
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <label
+            className="border rounded-lg px-3 py-1 cursor-pointer inline-flex items-center gap-1"
+            style={{ borderColor: PRIMARY, color: PRIMARY }}
+          >
+            <Upload className="h-3 w-3" />
+            Import .ics
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                importIcs(e.target.files?.[0] || null);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {timetable.length === 0 && (
+            <button
+              className="border rounded-lg px-3 py-1"
+              style={{ borderColor: PRIMARY, color: PRIMARY }}
+              onClick={() => setTimetable(EXAMPLE_TIMETABLE)}
+            >
+              Load example
+            </button>
+          )}
+          {timetable.length > 0 && (
+            <button
+              className="border rounded-lg px-3 py-1 text-red-700 border-red-300"
+              onClick={() => {
+                if (window.confirm("Remove all classes from your timetable?")) {
+                  setTimetable([]);
+                }
+              }}
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-600 mt-1">
+        Tutorial slots are checked against these weekly classes. Import the
+        calendar export from Mosaic (or any calendar app), or add classes by
+        hand.
+      </p>
+
+      <div className="mt-3 grid gap-2 text-sm">
+        {timetable.length === 0 && (
+          <div className="text-gray-500 text-xs">No classes yet.</div>
+        )}
+        {timetable.map((e) => {
+          const check = validateSlot(e);
+          return (
+            <div key={e.id} className="flex flex-wrap items-center gap-2">
+              <input
+                className="border rounded-lg px-2 py-1 w-40"
+                value={e.title}
+                onChange={(ev) => update(e.id, { title: ev.target.value })}
+                placeholder="Course"
+              />
+              <select
+                className="border rounded-lg px-2 py-1"
+                value={e.day}
+                onChange={(ev) =>
+                  update(e.id, { day: ev.target.value as Weekday })
+                }
+              >
+                {WEEKDAYS.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="time"
+                className="border rounded-lg px-2 py-1"
+                value={e.start}
+                onChange={(ev) => update(e.id, { start: ev.target.value })}
+              />
+              <span>–</span>
+              <input
+                type="time"
+                className="border rounded-lg px-2 py-1"
+                value={e.end}
+                onChange={(ev) => update(e.id, { end: ev.target.value })}
+              />
+              {e.location && (
+                <span className="text-xs text-gray-500">{e.location}</span>
+              )}
+              {!check.ok && (
+                <span className="text-xs text-red-700">{check.msg}</span>
+              )}
+              <button
+                className="ml-auto border rounded-lg px-2 py-1 text-xs text-red-700 border-red-300"
+                onClick={() =>
+                  setTimetable((list) => list.filter((x) => x.id !== e.id))
+                }
+              >
+                Remove
+              </button>
+            </div>
+          );
+        })}
+        <button
+          className="justify-self-start border rounded-lg px-3 py-1 text-xs"
+          style={{ borderColor: PRIMARY, color: PRIMARY }}
+          onClick={() =>
+            setTimetable((list) => [
+              ...list,
+              {
+                id: cryptoId(),
+                title: "",
+                day: "Mon",
+                start: "09:30",
+                end: "10:20",
+              },
+            ])
+          }
+        >
+          Add class
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function StatusChip({ status }: { status: ApplicationStatus }) {
+  const map =
+    {
+      submitted: { bg: "#FBE6F0", fg: PRIMARY, label: "Submitted" },
+      reviewed: { bg: "#FFEB99", fg: PRIMARY, label: "Reviewed" },
+      interview: { bg: "#E9F5FF", fg: "#0C4A6E", label: "Interview" },
+      offered: { bg: "#FFF4E5", fg: "#9A3412", label: "Offer sent" },
+      "offer-accepted": {
+        bg: "#E8F5E9",
+        fg: "#1B5E20",
+        label: "Offer accepted",
+      },
+      "offer-declined": {
+        bg: "#ECEFF1",
+        fg: "#455A64",
+        label: "Offer declined",
+      },
+      expired: { bg: "#ECEFF1", fg: "#455A64", label: "Offer expired" },
+      rejected: { bg: "#FDE7EA", fg: PRIMARY, label: "Rejected" },
+      withdrawn: { bg: "#ECEFF1", fg: "#455A64", label: "Withdrawn" },
+    }[status] || { bg: "#EEE", fg: "#555", label: status };
+  return (
+    <span
+      className="text-xs font-semibold px-2 py-1 rounded-full"
+      style={{ background: map.bg, color: map.fg }}
+    >
+      {map.label}
+    </span>
+  );
+}
+
+const ACTOR_LABEL: Record<StatusActor, string> = {
+  student: "Student",
+  professor: "Professor",
+  coordinator: "Coordinator",
+  system: "System",
+};
+
+function StatusTimeline({ history }: { history: StatusChange[] }) {
+  if (history.length === 0) {
+    return <div className="text-sm text-gray-500">No status changes yet.</div>;
+  }
+  return (
+    <ol className="relative border-l pl-4 ml-1 space-y-3">
+      {history.map((h, i) => (
+        <li key={i} className="text-sm">
+          <span
+            className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full"
+            style={{ background: PRIMARY }}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <StatusChip status={h.to} />
+            <span className="text-xs text-gray-500">
+              {ACTOR_LABEL[h.actor]}
+              {h.by && ` (${h.by})`} • {new Date(h.at).toLocaleString()}
+            </span>
+          </div>
+          {h.message && <div className="text-gray-700 mt-0.5">{h.message}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function describeDoc(d: StoredDocument) {
+  return `${d.name} (${formatFileSize(d.size)}, uploaded ${new Date(
+    d.uploadedAt
+  ).toLocaleDateString()})`;
+}
+
+// ---------------- Posting Details ----------------
+function PostingDetails(props: {
+  posting: Posting;
+  /** the student's grade in this course, if they gave one */
+  grade: string | null;
+  now: number;
+  timetable: TimetableEntry[];
+  onApply: (payload: {
+    resume: File | StoredDocument | null;
+    transcript: File | StoredDocument | null;
+    note: string;
+  }) => void;
+  defaultResume: StoredDocument | null;
+  defaultTranscript: StoredDocument | null;
+  /** opens the chosen file in the PDF viewer before submitting */
+  onPreview: (doc: ViewableDocument) => void;
+}) {
+  const {
+    posting,
+    grade,
+    now,
+    timetable,
+    onApply,
+    defaultResume,
+    defaultTranscript,
+    onPreview,
+  } = props;
+  const accepting = isAcceptingApplications(posting, now);
+  const [resume, setResume] = useState<File | null>(null);
+  const [transcript, setTranscript] = useState<File | null>(null);
+  const [note, setNote] = useState("");
+
+  // 是否使用文档库里的默认文件
+  const [useDefaultResume, setUseDefaultResume] = useState(!!defaultResume);
+  const [useDefaultTranscript, setUseDefaultTranscript] = useState(false);
+
+  const effectiveResume =
+    useDefaultResume && defaultResume ? defaultResume : resume;
+  const effectiveTranscript =
     useDefaultTranscript && defaultTranscript ? defaultTranscript : transcript;
 
   return (
@@ -1015,10 +3298,24 @@ function PostingDetails(props: {
         {posting.code} • {posting.professor}
       </div>
 
-      {posting.studentPrevGrade && (
+      {grade && (
         <div className="mt-1 text-sm">
-          <span className="font-medium">Your previous grade:</span>{" "}
-          {posting.studentPrevGrade}
+          <span className="font-medium">Your previous grade:</span> {grade}
+        </div>
+      )}
+      {posting.description && (
+        <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">
+          {posting.description}
+        </p>
+      )}
+      {posting.requiredQualifications.length > 0 && (
+        <div className="mt-2 text-sm">
+          <div className="font-medium">Required qualifications</div>
+          <ul className="list-disc pl-5 mt-1 space-y-0.5 text-gray-700">
+            {posting.requiredQualifications.map((q, i) => (
+              <li key={i}>{q}</li>
+            ))}
+          </ul>
         </div>
       )}
       <div className="grid md:grid-cols-2 gap-4 mt-3">
@@ -1027,22 +3324,48 @@ function PostingDetails(props: {
             <Clock className="h-4 w-4" />
             Class Time
           </div>
-          <div className="text-sm mt-1">{posting.classTime}</div>
+          <div className="text-sm mt-1">
+            {formatMeetings(posting.classMeetings)}
+          </div>
           <div className="font-medium mt-3">Possible TA Tutorial Times</div>
           <ul className="list-disc pl-5 text-sm mt-1 space-y-0.5">
-            {posting.tutorialSlots.map((t: any, i: number) => (
+            {posting.tutorialSlots.map((t, i) => (
               <li key={i}>
                 {t.day} {t.start}–{t.end}
               </li>
             ))}
           </ul>
+          <button
+            className="mt-2 border rounded-lg px-3 py-1 text-xs inline-flex items-center gap-1"
+            style={{ borderColor: PRIMARY, color: PRIMARY }}
+            onClick={() =>
+              downloadCalendar(
+                `${posting.code}-tutorials.ics`,
+                `${posting.code} TA tutorials`,
+                postingCalendarEvents(posting)
+              )
+            }
+          >
+            <Download className="h-3 w-3" />
+            Add tutorials to calendar (.ics)
+          </button>
         </div>
-        <div className="rounded-xl border bg-white p-3">
+        <div className="rounded-xl border bg-white p-3 md:col-span-2">
           <div className="font-medium flex items-center gap-2">
             <Calendar className="h-4 w-4" />
             Schedule Preview
           </div>
-          <SchedulePreview tutorialSlots={posting.tutorialSlots} />
+          <SchedulePreview
+            tutorialSlots={posting.tutorialSlots}
+            classes={timetable}
+            lecture={posting.classMeetings}
+            courseLabel={posting.code}
+          />
+          {timetable.length === 0 && (
+            <p className="mt-2 text-[11px] text-gray-500">
+              Add your timetable under My Applications to see conflicts.
+            </p>
+          )}
         </div>
       </div>
 
@@ -1093,10 +3416,16 @@ function PostingDetails(props: {
               className="text-sm"
             />
             <p className="text-xs text-gray-500">
-              Resume is required to submit your application.
+              Resume is required to submit your application ({PDF_LIMITS}).
             </p>
           </>
         )}
+        {effectiveResume && (
+          <div className="text-xs text-gray-700">
+            Resume: {effectiveResume.name}
+            <ViewDocButton doc={effectiveResume} onView={onPreview} />
+          </div>
+        )}
 
         <label className="text-sm font-medium flex items-center gap-2">
           <Upload className="h-4 w-4" /> Transcript (PDF)
@@ -1122,6 +3451,12 @@ function PostingDetails(props: {
             className="text-sm"
           />
         )}
+        {effectiveTranscript && (
+          <div className="text-xs text-gray-700">
+            Transcript: {effectiveTranscript.name}
+            <ViewDocButton doc={effectiveTranscript} onView={onPreview} />
+          </div>
+        )}
       </div>
 
       <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2">
@@ -1145,181 +3480,949 @@ function PostingDetails(props: {
               note,
             })
           }
-          disabled={posting.closed}
+          disabled={!accepting}
         >
-          {posting.closed ? "Applications closed" : "Submit Application"}
+          {accepting ? "Submit Application" : "Applications closed"}
         </button>
+        <span className="text-xs text-gray-500">
+          {countdownLabel(posting, now)}
+        </span>
       </div>
     </div>
   );
 }
 
-function SchedulePreview({ tutorialSlots }: { tutorialSlots: any[] }) {
-  const days = ["Mon", "Tue", "Wed", "Thu", "Fri"];
-  const hasConflict = (slot: any) =>
-    STUDENT_CLASSES.some(
-      (c) => c.day === slot.day && !(slot.end <= c.start || slot.start >= c.end)
-    );
+const GRID_START = 8 * 60;
+const GRID_END = 22 * 60;
+const HOUR_PX = 26;
+
+const BLOCK_STYLE: Record<
+  BlockKind,
+  { bg: string; fg: string; label: string }
+> = {
+  class: { bg: "#E5E7EB", fg: "#374151", label: "Your class" },
+  lecture: { bg: "#E9F5FF", fg: "#0C4A6E", label: "Course lecture" },
+  tutorial: { bg: "#E8F5E9", fg: "#1B5E20", label: "TA tutorial" },
+};
+const CONFLICT_STYLE = { bg: "#FDE7EA", fg: "#7A003C" };
+
+function describeBlock(b: CalendarBlock) {
+  return `${b.label} (${b.day} ${b.start}–${b.end})`;
+}
+
+/**
+ * Weekly time grid (08:00–22:00) overlaying the student's classes, the
+ * course lecture and every tutorial slot. Overlapping blocks sit
+ * side-by-side; hovering one explains its conflicts.
+ */
+function SchedulePreview({
+  tutorialSlots,
+  classes,
+  lecture = [],
+  courseLabel = "Lecture",
+}: {
+  tutorialSlots: TutorialSlot[];
+  classes: TimetableEntry[];
+  lecture?: TimeSlot[];
+  courseLabel?: string;
+}) {
+  const [hovered, setHovered] = useState<PlacedBlock | null>(null);
+
+  const blocks: CalendarBlock[] = [
+    ...classes.map((c) => ({
+      ...c,
+      kind: "class" as const,
+      label: c.title || "Class",
+    })),
+    ...lecture.map((l, i) => ({
+      ...l,
+      id: `lecture-${i}`,
+      kind: "lecture" as const,
+      label: `${courseLabel} lecture`,
+    })),
+    ...tutorialSlots.map((t, i) => ({
+      ...t,
+      id: `tutorial-${i}`,
+      kind: "tutorial" as const,
+      label: `Tutorial ${i + 1}`,
+    })),
+  ];
+  // weekends only when something is scheduled on them
+  const days = WEEKDAYS.filter(
+    (d, i) => i < 5 || blocks.some((b) => b.day === d)
+  );
+  const placedByDay = new Map(
+    days.map((d) => [d, layoutDay(blocks.filter((b) => b.day === d))])
+  );
+  const hours: number[] = [];
+  for (let m = GRID_START; m < GRID_END; m += 60) hours.push(m / 60);
+  const height = ((GRID_END - GRID_START) / 60) * HOUR_PX;
+  const y = (hhmm: string) =>
+    ((Math.min(Math.max(minutesOf(hhmm), GRID_START), GRID_END) - GRID_START) /
+      60) *
+    HOUR_PX;
+
   return (
     <div className="text-xs">
-      <div className="grid grid-cols-5 gap-1">
+      <div
+        className="grid gap-1"
+        style={{ gridTemplateColumns: `2.5rem repeat(${days.length}, 1fr)` }}
+      >
+        <div />
         {days.map((d) => (
           <div key={d} className="text-center font-medium text-gray-700">
             {d}
           </div>
         ))}
-      </div>
-      <div className="grid grid-cols-5 gap-1 mt-1">
-        {days.map((d) => {
-          const slot = tutorialSlots.find((s) => s.day === d);
-          if (!slot)
-            return <div key={d} className="h-16 rounded-md bg-gray-100" />;
-          const conflict = hasConflict(slot);
-          return (
+
+        <div className="relative" style={{ height }}>
+          {hours.map((h) => (
             <div
-              key={d}
-              className="h-16 rounded-md flex items-center justify-center"
-              style={{
-                background: conflict ? "#FDE7EA" : "#E8F5E9",
-                color: conflict ? "#7A003C" : "#1B5E20",
-              }}
+              key={h}
+              className="absolute right-1 text-[10px] text-gray-500"
+              style={{ top: (h * 60 - GRID_START) / 60 * HOUR_PX - 6 }}
             >
-              {slot.start}–{slot.end}
+              {String(h).padStart(2, "0")}:00
             </div>
-          );
-        })}
-      </div>
-      <div className="mt-2 flex items-center gap-3 text-[11px] text-gray-700">
-        <span className="inline-flex items-center gap-1">
-          <span
-            className="h-3 w-3 rounded-sm inline-block"
-            style={{ background: "#E8F5E9" }}
-          />
-          <Check className="h-3 w-3" />
-          No Conflict
-        </span>
-        <span className="inline-flex items-center gap-1">
-          <span
-            className="h-3 w-3 rounded-sm inline-block"
-            style={{ background: "#FDE7EA" }}
-          />
-          <X className="h-3 w-3" />
-          Conflict
-        </span>
-      </div>
+          ))}
+        </div>
+        {days.map((d) => (
+          <div
+            key={d}
+            className="relative rounded-md bg-gray-50"
+            style={{ height }}
+          >
+            {hours.map((h) => (
+              <div
+                key={h}
+                className="absolute inset-x-0 border-t border-gray-200"
+                style={{ top: (h * 60 - GRID_START) / 60 * HOUR_PX }}
+              />
+            ))}
+            {placedByDay.get(d)!.map((p) => {
+              const conflict = p.conflicts.length > 0;
+              const style = conflict
+                ? CONFLICT_STYLE
+                : BLOCK_STYLE[p.block.kind];
+              return (
+                <div
+                  key={p.block.id}
+                  className="absolute rounded px-0.5 overflow-hidden leading-tight border cursor-default"
+                  style={{
+                    top: y(p.block.start),
+                    height: Math.max(y(p.block.end) - y(p.block.start), 10),
+                    left: `${(p.col / p.cols) * 100}%`,
+                    width: `${100 / p.cols}%`,
+                    background: style.bg,
+                    color: style.fg,
+                    borderColor: conflict ? PRIMARY : "transparent",
+                    borderStyle: p.block.kind === "class" ? "dashed" : "solid",
+                  }}
+                  title={
+                    describeBlock(p.block) +
+                    (conflict
+                      ? ` – conflicts with ${p.conflicts
+                          .map(describeBlock)
+                          .join(", ")}`
+                      : "")
+                  }
+                  onMouseEnter={() => setHovered(p)}
+                  onMouseLeave={() => setHovered(null)}
+                >
+                  <div className="text-[10px] font-medium truncate">
+                    {p.block.label}
+                  </div>
+                  <div className="text-[9px] truncate">{p.block.start}</div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-2 min-h-[2.5rem] rounded-md bg-gray-50 px-2 py-1 text-[11px] text-gray-700">
+        {hovered ? (
+          <>
+            <div className="font-medium">
+              {BLOCK_STYLE[hovered.block.kind].label}:{" "}
+              {describeBlock(hovered.block)}
+            </div>
+            {hovered.conflicts.length > 0 ? (
+              <div style={{ color: PRIMARY }}>
+                Conflicts with{" "}
+                {hovered.conflicts.map(describeBlock).join(", ")}
+              </div>
+            ) : (
+              <div className="text-gray-500">No conflicts.</div>
+            )}
+          </>
+        ) : (
+          <span className="text-gray-500">Hover a block for details.</span>
+        )}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-[11px] text-gray-700">
+        {(Object.keys(BLOCK_STYLE) as BlockKind[]).map((k) => (
+          <span key={k} className="inline-flex items-center gap-1">
+            <span
+              className="h-3 w-3 rounded-sm inline-block"
+              style={{ background: BLOCK_STYLE[k].bg }}
+            />
+            {k === "tutorial" && <Check className="h-3 w-3" />}
+            {BLOCK_STYLE[k].label}
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1">
+          <span
+            className="h-3 w-3 rounded-sm inline-block"
+            style={{ background: CONFLICT_STYLE.bg }}
+          />
+          <X className="h-3 w-3" />
+          Conflict
+        </span>
+      </div>
     </div>
   );
 }
 
 // ---------------- Professor ----------------
+// statuses a professor can move an application to
+type ProfessorStatus = "reviewed" | "interview" | "offered" | "rejected";
+
 function ProfessorView(props: {
-  postings: any[];
-  setPostings: React.Dispatch<React.SetStateAction<any[]>>;
-  applications: any[];
-  setApplications: React.Dispatch<React.SetStateAction<any[]>>;
-  pingStudent: (msg: string) => void;
+  user: User;
+  /** records a rejected attempt in the access log */
+  onDenied: (action: string, reason: string) => void;
+  /** department-wide blind review; early reveals go to the audit log */
+  blindRequired: boolean;
+  onReveal: (app: Application, posting: Posting) => void;
+  clock: AppClock;
+  postings: Posting[];
+  setPostings: React.Dispatch<React.SetStateAction<Posting[]>>;
+  applications: Application[];
+  setApplications: React.Dispatch<React.SetStateAction<Application[]>>;
+  templates: MessageTemplate[];
+  setTemplates: React.Dispatch<React.SetStateAction<MessageTemplate[]>>;
+  interviewSlots: InterviewSlot[];
+  setInterviewSlots: React.Dispatch<React.SetStateAction<InterviewSlot[]>>;
+  /** notifies the student who made application `appId` */
+  pingStudent: (appId: string, msg: string) => void;
   profPostingId: string;
   setProfPostingId: (id: string) => void;
+  /** application to open (from a notification), cleared via onFocused */
+  focusAppId: string | null;
+  onFocused: () => void;
 }) {
   const {
+    user,
+    onDenied,
+    blindRequired,
+    onReveal,
+    clock,
     postings,
     setPostings,
     applications,
     setApplications,
+    templates,
+    setTemplates,
+    interviewSlots,
+    setInterviewSlots,
     pingStudent,
     profPostingId,
     setProfPostingId,
+    focusAppId,
+    onFocused,
   } = props;
 
-  const [active, setActive] = useState<any | null>(null);
+  const [active, setActive] = useState<Application | null>(null);
+  // next-step message being written for a status change in the dialog
+  const [compose, setCompose] = useState<{
+    status: ProfessorStatus;
+    body: string;
+    templateId: string;
+    /** offers only, as a datetime-local value */
+    respondBy: string;
+  } | null>(null);
+  // posting editor: null = closed, no posting = create
+  const [editing, setEditing] = useState<{ posting?: Posting } | null>(null);
+  const [reopening, setReopening] = useState(false);
+  const [sortBy, setSortBy] = useState<"received" | "score">("received");
+  // ids of applicants ticked for a batch action
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  // review comment being written in the dialog
+  const [comment, setComment] = useState("");
+  // resume / transcript open in the PDF viewer
+  const [viewing, setViewing] = useState<ViewableDocument | null>(null);
+  const now = useNow(clock);
 
-  const profPosting =
-    postings.find((p) => p.id === profPostingId) ?? postings[0];
+  // only postings the user is on the staff of can be opened
+  const mine = postings.filter((p) => can(user, p, "view"));
+  const profPosting: Posting | undefined =
+    mine.find((p) => p.id === profPostingId) ?? mine[0];
+  const profPostingKey = profPosting?.id;
   const appsForCourse = useMemo(
-    () => applications.filter((a) => a.postingId === profPosting.id),
-    [applications, profPosting.id]
+    () => applications.filter((a) => a.postingId === profPostingKey),
+    [applications, profPostingKey]
   );
 
-  // Sanity: ensure no leakage from other courses
+  // a remembered course someone else owns (e.g. after a reassignment)
+  const foreign = postings.find(
+    (p) => p.id === profPostingId && !can(user, p, "view")
+  );
   useEffect(() => {
-    const leak = applications.some(
-      (a) => a.postingId !== profPosting.id && appsForCourse.includes(a)
-    );
-    console.assert(
-      !leak,
-      "Professor view should only list apps for the selected course"
+    if (!foreign) return;
+    try {
+      authorizePosting(user, foreign, "view applications", "view");
+    } catch (err) {
+      onDenied("view applications", (err as Error).message);
+    }
+    setProfPostingId(profPostingKey ?? "");
+  }, [foreign, user, onDenied, setProfPostingId, profPostingKey]);
+
+  /**
+   * Action guard: every change to a posting or its applications checks the
+   * user's staff role first. Rejected attempts are logged and shown.
+   */
+  const guard = (
+    posting: Pick<Posting, "professor" | "staff" | "code"> | undefined,
+    action: string,
+    permission: Permission
+  ): posting is Posting => {
+    if (!posting) return false;
+    try {
+      authorizePosting(user, posting, action, permission);
+      return true;
+    } catch (err) {
+      if (!(err instanceof AuthorizationError)) throw err;
+      onDenied(action, err.message);
+      alert(err.message);
+      return false;
+    }
+  };
+
+  const postingOf = (app: Application) =>
+    postings.find((p) => p.id === app.postingId);
+
+  // blind first-round review (see blind.ts)
+  const hideIdentity = (app: Application) => {
+    const posting = postingOf(app);
+    return !!posting && identityHidden(app, posting, blindRequired);
+  };
+  const nameOf = (app: Application) =>
+    hideIdentity(app) ? anonymousName(app) : applicantName(app);
+
+  const revealIdentity = (app: Application) => {
+    const posting = postingOf(app);
+    if (!guard(posting, "reveal applicant identities", "decide")) return;
+    const sure = window.confirm(
+      "Reveal this applicant's name, student number and email before the " +
+        "interview stage? The coordinator can see who revealed whom."
     );
-  }, [applications, profPosting.id, appsForCourse]);
+    if (!sure) return;
+    const next = markRevealed(app, user.name, clock.now());
+    setApplications((list) => list.map((a) => (a.id === app.id ? next : a)));
+    setActive(next);
+    onReveal(app, posting);
+  };
 
-  const toggleClosed = () => {
+  const closeNow = () => {
+    if (!guard(profPosting, "close the posting", "manage")) return;
     setPostings((list) =>
       list.map((p) =>
-        p.id === profPosting.id ? { ...p, closed: !p.closed } : p
+        p.id === profPostingKey ? closePosting(p, clock.now()) : p
       )
     );
   };
 
+  // deadline: undefined keeps the current one, null removes it
+  const reopen = (deadline: number | null | undefined) => {
+    if (!guard(profPosting, "reopen the posting", "manage")) return;
+    let next: Posting;
+    try {
+      next = reopenPosting(profPosting, clock.now(), deadline);
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    }
+    setPostings((list) => list.map((p) => (p.id === next.id ? next : p)));
+    setReopening(false);
+  };
+
+  const savePosting = (input: PostingDraft) => {
+    const existing = editing?.posting;
+    const result = validatePosting(
+      input,
+      postings.filter((p) => p.id !== existing?.id)
+    );
+    if (!result.ok) {
+      alert(result.msg);
+      return;
+    }
+    const draft = normalizeDraft(input);
+    if (existing) {
+      if (!guard(existing, "edit the posting", "manage")) return;
+      const staffChanged =
+        JSON.stringify(draft.staff) !== JSON.stringify(existing.staff);
+      if (staffChanged && !guard(existing, "change the staff", "own")) return;
+    }
+    // can't give a posting away either; that's the coordinator's job
+    if (!guard(draft, existing ? "edit the posting" : "create a posting", "manage")) {
+      return;
+    }
+    if (existing) {
+      setPostings((list) =>
+        list.map((p) => (p.id === existing.id ? { ...p, ...draft } : p))
+      );
+      // applications keep a copy of the course title / code for the
+      // student's list (and for after the posting is deleted)
+      if (draft.title !== existing.title || draft.code !== existing.code) {
+        setApplications((list) =>
+          list.map((a) =>
+            a.postingId === existing.id
+              ? { ...a, course: draft.title, courseCode: draft.code }
+              : a
+          )
+        );
+      }
+    } else {
+      const posting: Posting = {
+        ...draft,
+        id: `posting-${cryptoId()}`,
+        closed: false,
+        availabilityHistory: [],
+        waitlist: [],
+      };
+      setPostings((list) => [...list, posting]);
+      setProfPostingId(posting.id);
+    }
+    setEditing(null);
+  };
+
+  const deletePosting = () => {
+    if (!guard(profPosting, "delete the posting", "own")) return;
+    const blocking = blockingApplications(profPosting.id, applications);
+    if (blocking.length > 0) {
+      alert(
+        `${profPosting.code} still has ${blocking.length} active, offered ` +
+          "or accepted application(s). Reject them (or wait for students to " +
+          "withdraw) before deleting. You can close the posting to stop new " +
+          "applications."
+      );
+      return;
+    }
+    const sure = window.confirm(
+      `Delete the ${profPosting.code} posting? This cannot be undone.`
+    );
+    if (!sure) return;
+    const rest = postings.filter((p) => p.id !== profPosting.id);
+    setPostings(rest);
+    setInterviewSlots((list) =>
+      list.filter((s) => s.postingId !== profPosting.id)
+    );
+    setProfPostingId(rest[0]?.id ?? "");
+  };
+
+  // respondBy: the offer's response deadline (offers only)
   const updateStatus = (
-    app: any,
-    status: "reviewed" | "interview" | "accepted" | "rejected"
+    app: Application,
+    status: ProfessorStatus,
+    message: string,
+    respondBy: number | null = null
+  ) => {
+    const action = `move applications to ${status}`;
+    const posting = postingOf(app);
+    if (!guard(posting, action, "decide")) return;
+    // always transition from the latest copy, not the dialog's snapshot
+    const current = applications.find((a) => a.id === app.id) ?? app;
+    const at = clock.now();
+    let next: Application;
+    try {
+      if (status === "offered") {
+        // seats of the application's own posting, whichever one is selected
+        const blocked = offerBlockedReason(posting, applications);
+        if (blocked) {
+          alert(blocked);
+          return;
+        }
+        const check = validateRespondBy(respondBy, at);
+        if (!check.ok || respondBy === null) {
+          alert(check.msg);
+          return;
+        }
+        next = sendOffer(
+          current,
+          respondBy,
+          message,
+          at,
+          "professor",
+          user.name
+        );
+      } else {
+        next = transition(
+          current,
+          status,
+          "professor",
+          message,
+          at,
+          user.name
+        );
+      }
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    }
+    setApplications((list) => list.map((a) => (a.id === app.id ? next : a)));
+    setActive(null);
+  };
+
+  // Same rules as updateStatus, per application; ones that can't make the
+  // move are listed in the confirmation and left alone.
+  const updateStatusBulk = (
+    targets: Application[],
+    status: Exclude<ProfessorStatus, "offered">,
+    verb: string
   ) => {
-    const defaultNextStepByStatus: Record<string, string> = {
-      reviewed: "Your application has been reviewed.",
-      interview: "You have been shortlisted for an interview.",
-      accepted: "Offer extended. Please watch your email.",
-      rejected: "You were not selected for this position.",
+    const latest = targets.map(
+      (t) => applications.find((a) => a.id === t.id) ?? t
+    );
+    const action = `move applications to ${status}`;
+    const permitted = (a: Application) =>
+      guard(postingOf(a), action, "decide");
+    if (!profPosting || !latest.every(permitted)) return;
+    const template = defaultTemplate(profPosting, status, templates);
+    const body = template?.body ?? DEFAULT_NEXT_STEP[status];
+    const { updated, skipped } = bulkTransition(
+      latest,
+      status,
+      "professor",
+      (app) =>
+        renderTemplate(
+          body,
+          templateVars(app, profPosting, bookedSlot(interviewSlots, app.id))
+        ),
+      clock.now(),
+      user.name
+    );
+    if (updated.length === 0) {
+      alert(`None of the selected applications can be moved to ${status}.`);
+      return;
+    }
+    const lines = [
+      `${verb}: ${updated.length} applicant(s).`,
+      `Message: ${template ? `"${template.name}" template` : body}`,
+    ];
+    if (skipped.length > 0) {
+      lines.push(
+        "",
+        `${skipped.length} will be skipped:`,
+        ...skipped
+          .slice(0, 10)
+          .map((s) => `• ${nameOf(s.app)} (${s.app.status})`)
+      );
+      if (skipped.length > 10) lines.push(`…and ${skipped.length - 10} more`);
+    }
+    lines.push("", "Each affected student will be notified. Continue?");
+    if (!window.confirm(lines.join("\n"))) return;
+    const byId = new Map(updated.map((a) => [a.id, a]));
+    setApplications((list) => list.map((a) => byId.get(a.id) ?? a));
+    setSelected(new Set());
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected((s) => {
+      const next = new Set(s);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const openApplication = useCallback((app: Application) => {
+    setActive(app);
+    setCompose(null);
+    setComment("");
+  }, []);
+
+  // notification links: App already switched to the posting
+  useEffect(() => {
+    if (!focusAppId) return;
+    const app = applications.find((a) => a.id === focusAppId);
+    const posting = postings.find((p) => p.id === app?.postingId);
+    if (app && posting && can(user, posting, "view")) openApplication(app);
+    onFocused();
+  }, [focusAppId, applications, postings, user, openApplication, onFocused]);
+
+  const startCompose = (status: ProfessorStatus) => {
+    if (!profPosting) return;
+    const template = defaultTemplate(profPosting, status, templates);
+    setCompose({
+      status,
+      body: template?.body ?? DEFAULT_NEXT_STEP[status],
+      templateId: template?.id ?? "",
+      respondBy: toLocalInput(clock.now() + DEFAULT_OFFER_DAYS * DAY),
+    });
+  };
+
+  const sendStatus = () => {
+    if (!active || !compose) return;
+    const check = validateMessage(compose.body);
+    if (!check.ok) {
+      alert(check.msg);
+      return;
+    }
+    updateStatus(
+      active,
+      compose.status,
+      renderTemplate(compose.body, activeVars),
+      fromLocalInput(compose.respondBy)
+    );
+  };
+
+  const saveTemplate = () => {
+    if (!compose || !profPosting) return;
+    const name = window.prompt("Template name");
+    if (name === null) return;
+    const check = validateTemplate(name, compose.body);
+    if (!check.ok) {
+      alert(check.msg);
+      return;
+    }
+    const template: MessageTemplate = {
+      id: `tmpl-${cryptoId()}`,
+      name: name.trim(),
+      status: compose.status,
+      body: compose.body,
+      professor: user.name,
     };
-    setApplications((list) =>
-      list.map((a) =>
-        a.id === app.id
-          ? { ...a, status, nextStep: defaultNextStepByStatus[status] }
-          : a
+    setTemplates((list) => [...list, template]);
+    setCompose({ ...compose, templateId: template.id });
+  };
+
+  const deleteTemplate = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+    setTemplates((list) => list.filter((t) => t.id !== id));
+    if (compose?.templateId === id) setCompose({ ...compose, templateId: "" });
+  };
+
+  // "" makes the standard message the default again
+  const setDefaultTemplate = (status: ProfessorStatus, id: string) => {
+    if (!guard(profPosting, "change default templates", "decide")) return;
+    setPostings((list) =>
+      list.map((p) =>
+        p.id === profPosting.id
+          ? { ...p, defaultTemplates: { ...p.defaultTemplates, [status]: id } }
+          : p
       )
     );
-    pingStudent(`${app.postingId} status updated to ${status}`);
-    setActive(null);
   };
 
+  const updateWaitlist = (change: (waitlist: string[]) => string[]) => {
+    if (!guard(profPosting, "change the waitlist", "decide")) return;
+    setPostings((list) =>
+      list.map((p) =>
+        p.id === profPostingKey ? { ...p, waitlist: change(p.waitlist) } : p
+      )
+    );
+  };
+
+  const toggleWaitlist = (app: Application) => {
+    if (!profPosting) return;
+    if (profPosting.waitlist.includes(app.id)) {
+      updateWaitlist((w) => w.filter((id) => id !== app.id));
+      return;
+    }
+    if (capacity(profPosting, applications).remaining > 0) {
+      const sure = window.confirm(
+        "A position is still free, so this applicant will be sent an offer " +
+          "right away. Continue?"
+      );
+      if (!sure) return;
+    }
+    updateWaitlist((w) => [...w, app.id]);
+  };
+
+  // moves a waitlist entry up (-1) or down (+1)
+  const moveWaitlisted = (id: string, by: number) =>
+    updateWaitlist((w) => {
+      const i = w.indexOf(id);
+      const j = i + by;
+      if (i < 0 || j < 0 || j >= w.length) return w;
+      const next = [...w];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+
+  // null clears the score for that criterion
+  const setScore = (
+    app: Application,
+    criterionId: string,
+    v: number | null
+  ) => {
+    const posting = postingOf(app);
+    if (!guard(posting, "score applications", "review")) return;
+    const criterion = posting.rubric.find((c) => c.id === criterionId);
+    const current = applications.find((a) => a.id === app.id) ?? app;
+    const scores = { ...current.scores };
+    if (v === null) delete scores[criterionId];
+    else scores[criterionId] = v;
+    const next = criterion
+      ? addReviewNote(
+          { ...current, scores },
+          user.name,
+          "score",
+          scoreNoteText(criterion, v),
+          clock.now()
+        )
+      : { ...current, scores };
+    setApplications((list) => list.map((a) => (a.id === app.id ? next : a)));
+    setActive(next);
+  };
+
+  const addComment = (app: Application) => {
+    const check = validateComment(comment);
+    if (!check.ok) {
+      alert(check.msg);
+      return;
+    }
+    if (!guard(postingOf(app), "comment on applications", "review")) return;
+    const current = applications.find((a) => a.id === app.id) ?? app;
+    const next = addReviewNote(
+      current,
+      user.name,
+      "comment",
+      comment,
+      clock.now()
+    );
+    setApplications((list) => list.map((a) => (a.id === app.id ? next : a)));
+    setActive(next);
+    setComment("");
+  };
+
+  const allowed = active
+    ? allowedTransitions(active.status, "professor")
+    : [];
+  const activeInterview = active && bookedSlot(interviewSlots, active.id);
+  const activeVars = active
+    ? templateVars(active, profPosting, activeInterview ?? undefined)
+    : {};
+  const activeHidden = !!active && hideIdentity(active);
+  // the stored message greets the student by name; staff see it redacted
+  const previewVars = activeHidden
+    ? { ...activeVars, studentName: undefined }
+    : activeVars;
+  // file names are left out during blind review (see blind.ts)
+  const shownDoc = (d: StoredDocument | null, label: string) =>
+    d && activeHidden ? redactDocument(d, label) : d;
+  const activeResume = shownDoc(active?.resume ?? null, "resume");
+  const activeTranscript = shownDoc(active?.transcript ?? null, "transcript");
+  const statusButtonTitle = (to: ApplicationStatus) =>
+    active && !allowed.includes(to)
+      ? `Can't move a ${active.status} application to ${to}`
+      : undefined;
+
+  const editor = editing && (
+    <Dialog onClose={() => setEditing(null)}>
+      <PostingEditor
+        initial={editing.posting}
+        now={clock.now()}
+        defaultProfessor={user.name}
+        canEditStaff={
+          !editing.posting || can(user, editing.posting, "own")
+        }
+        blindRequired={blindRequired}
+        onSave={savePosting}
+        onCancel={() => setEditing(null)}
+      />
+    </Dialog>
+  );
+
+  if (!profPosting) {
+    return (
+      <div className="rounded-2xl border bg-white p-8 text-center">
+        <div className="font-medium" style={{ color: PRIMARY }}>
+          No postings yet
+        </div>
+        <button
+          className="mt-3 border rounded-lg px-3 py-2 text-sm"
+          style={{ borderColor: PRIMARY, color: PRIMARY }}
+          onClick={() => setEditing({})}
+        >
+          New Posting
+        </button>
+        {editor}
+      </div>
+    );
+  }
+
+  const listed =
+    sortBy === "score"
+      ? rankByScore(appsForCourse, profPosting.rubric)
+      : appsForCourse;
+  const activeScore =
+    active && weightedScore(active.scores, profPosting.rubric);
+  // the professor's own templates for the status being composed
+  const composeTemplates = compose
+    ? templates.filter(
+        (t) =>
+          t.status === compose.status &&
+          // own library, plus defaults a colleague set for this posting
+          (t.professor === user.name ||
+            profPosting.defaultTemplates[compose.status] === t.id)
+      )
+    : [];
+  const composeIsDefault =
+    !!compose &&
+    (defaultTemplate(profPosting, compose.status, templates)?.id ?? "") ===
+      compose.templateId;
+  const seats = capacity(profPosting, applications);
+  const offerBlocked = offerBlockedReason(profPosting, applications);
+  const waitlisted = profPosting.waitlist
+    .map((id) => appsForCourse.find((a) => a.id === id))
+    .filter((a): a is Application => !!a);
+  // selection only counts for the posting on screen
+  const selectedApps = listed.filter((a) => selected.has(a.id));
+  const allSelected =
+    listed.length > 0 && selectedApps.length === listed.length;
+  const remaining = appsForCourse.filter((a) =>
+    canTransition(a.status, "rejected", "professor")
+  );
+  const canBulk = (to: ApplicationStatus) =>
+    selectedApps.some((a) => canTransition(a.status, to, "professor"));
+  // what the user's staff role allows here (the handlers check again)
+  const role = staffRole(profPosting, user.name);
+  const canDecide = can(user, profPosting, "decide");
+  const canManage = can(user, profPosting, "manage");
+  const canOwn = can(user, profPosting, "own");
+
   return (
     <div className="grid gap-6">
-      {/* Professor account selector */}
+      {/* Course selector (the professor's own postings only) */}
       <section className="rounded-2xl border bg-white p-4">
         <div
           className="flex items-center gap-2 text-sm font-medium"
           style={{ color: PRIMARY }}
         >
-          Logged in as:{" "}
-          <span className="font-semibold">{profPosting.professor}</span>{" "}
-          (Course: {profPosting.code})
+          Signed in as:{" "}
+          <span className="font-semibold">{user.name}</span> (Course:{" "}
+          {profPosting.code}
+          {role && `, ${role}`})
         </div>
         <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
           <div>
-            <label className="text-sm text-gray-700">
-              Switch Professor Account (one course per account)
-            </label>
+            <label className="text-sm text-gray-700">Your postings</label>
             <select
-              className="mt-1 border rounded-lg px-3 py-2 text-sm"
+              className="mt-1 block border rounded-lg px-3 py-2 text-sm"
               style={{ borderColor: PRIMARY }}
               value={profPosting.id}
               onChange={(e) => setProfPostingId(e.target.value)}
             >
-              {postings.map((p) => (
+              {mine.map((p) => (
                 <option key={p.id} value={p.id}>
-                  {p.professor} — {p.code}
+                  {p.code} — {p.title}
                 </option>
               ))}
             </select>
           </div>
-          <button
-            className="border rounded-lg px-3 py-2 text-sm mt-2 sm:mt-0"
-            style={{
-              borderColor: PRIMARY,
-              color: profPosting.closed ? "#B91C1C" : PRIMARY,
-            }}
-            onClick={toggleClosed}
-          >
-            {profPosting.closed ? "Reopen Posting" : "Close Posting"}
-          </button>
+          <div className="flex flex-wrap gap-2 mt-2 sm:mt-0">
+            <button
+              className="border rounded-lg px-3 py-2 text-sm"
+              style={{ borderColor: PRIMARY, color: PRIMARY }}
+              onClick={() => setEditing({})}
+            >
+              New Posting
+            </button>
+            {canManage && (
+              <>
+                <button
+                  className="border rounded-lg px-3 py-2 text-sm"
+                  style={{ borderColor: PRIMARY, color: PRIMARY }}
+                  onClick={() => setEditing({ posting: profPosting })}
+                >
+                  Edit Posting
+                </button>
+                <button
+                  className="border rounded-lg px-3 py-2 text-sm"
+                  style={{
+                    borderColor: PRIMARY,
+                    color: profPosting.closed ? "#B91C1C" : PRIMARY,
+                  }}
+                  onClick={() =>
+                    profPosting.closed ? setReopening(true) : closeNow()
+                  }
+                >
+                  {profPosting.closed ? "Reopen Posting" : "Close Posting"}
+                </button>
+              </>
+            )}
+            <button
+              className="border rounded-lg px-3 py-2 text-sm inline-flex items-center gap-1"
+              style={{ borderColor: PRIMARY, color: PRIMARY }}
+              onClick={() =>
+                downloadCalendar(
+                  `${profPosting.code}-ta-schedule.ics`,
+                  `${profPosting.code} TA schedule`,
+                  postingCalendarEvents(profPosting, { includeLecture: true })
+                )
+              }
+            >
+              <Download className="h-4 w-4" />
+              Export TA schedule
+            </button>
+            {canOwn && (
+              <button
+                className="border rounded-lg px-3 py-2 text-sm text-red-700 border-red-300"
+                onClick={deletePosting}
+              >
+                Delete Posting
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="mt-3 text-sm text-gray-700 grid gap-1">
+          <div>
+            <span className="font-medium">Opens:</span>{" "}
+            {new Date(profPosting.opensAt).toLocaleString()} •{" "}
+            <span className="font-medium">Deadline:</span>{" "}
+            {profPosting.deadline !== null
+              ? new Date(profPosting.deadline).toLocaleString()
+              : "none"}{" "}
+            <span className="text-gray-500">
+              ({countdownLabel(profPosting, now)})
+            </span>
+          </div>
+          <div>
+            <span className="font-medium">Positions:</span> {seats.filled}/
+            {seats.positions} filled
+            {seats.pending > 0 && ` • ${seats.pending} offer(s) pending`} •{" "}
+            <span style={{ color: seats.remaining > 0 ? undefined : PRIMARY }}>
+              {seats.remaining} remaining
+            </span>{" "}
+            • {profPosting.hoursPerPosition} h per position
+          </div>
+          {profPosting.availabilityHistory.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-xs text-gray-600">
+                Close / reopen history (
+                {profPosting.availabilityHistory.length})
+              </summary>
+              <ul className="mt-1 list-disc pl-5 text-xs space-y-0.5">
+                {profPosting.availabilityHistory.map((h, i) => (
+                  <li key={i}>
+                    {h.action === "closed" ? "Closed" : "Reopened"} by{" "}
+                    {h.by === "system" ? "deadline" : h.by} on{" "}
+                    {new Date(h.at).toLocaleString()}
+                    {h.action === "reopened" &&
+                      ` – deadline ${
+                        h.deadline !== null
+                          ? new Date(h.deadline).toLocaleString()
+                          : "none"
+                      }`}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
         </div>
       </section>
 
@@ -1329,43 +4432,254 @@ function ProfessorView(props: {
         </h2>
         <div className="grid gap-4">
           <div className="rounded-2xl border bg-white p-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {appsForCourse.length > 0 && canDecide && (
+                <>
+                  <label className="inline-flex items-center gap-2 mr-1">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() =>
+                        setSelected(
+                          new Set(allSelected ? [] : listed.map((a) => a.id))
+                        )
+                      }
+                    />
+                    {selectedApps.length > 0
+                      ? `${selectedApps.length} selected`
+                      : "Select all"}
+                  </label>
+                  <button
+                    className="border rounded-lg px-2 py-1 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ borderColor: PRIMARY, color: PRIMARY }}
+                    disabled={!canBulk("reviewed")}
+                    onClick={() =>
+                      updateStatusBulk(
+                        selectedApps,
+                        "reviewed",
+                        "Mark reviewed"
+                      )
+                    }
+                  >
+                    Mark reviewed
+                  </button>
+                  <button
+                    className="border rounded-lg px-2 py-1 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ borderColor: PRIMARY, color: PRIMARY }}
+                    disabled={!canBulk("interview")}
+                    onClick={() =>
+                      updateStatusBulk(
+                        selectedApps,
+                        "interview",
+                        "Move to interview"
+                      )
+                    }
+                  >
+                    Move to interview
+                  </button>
+                  <button
+                    className="border rounded-lg px-2 py-1 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ borderColor: "#DC2626", color: "#B91C1C" }}
+                    disabled={!canBulk("rejected")}
+                    onClick={() =>
+                      updateStatusBulk(selectedApps, "rejected", "Reject")
+                    }
+                  >
+                    Reject selected
+                  </button>
+                  <button
+                    className="border rounded-lg px-2 py-1 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ borderColor: "#DC2626", color: "#B91C1C" }}
+                    disabled={remaining.length === 0}
+                    title="Rejects every applicant still in review or at the interview stage"
+                    onClick={() =>
+                      updateStatusBulk(
+                        remaining,
+                        "rejected",
+                        "Reject all remaining"
+                      )
+                    }
+                  >
+                    Reject all remaining ({remaining.length})
+                  </button>
+                </>
+              )}
+              <label
+                htmlFor="applicant-sort"
+                className="ml-auto text-gray-700"
+              >
+                Sort by
+              </label>
+              <select
+                id="applicant-sort"
+                className="border rounded-lg px-2 py-1"
+                style={{ borderColor: PRIMARY }}
+                value={sortBy}
+                onChange={(e) =>
+                  setSortBy(e.target.value as "received" | "score")
+                }
+              >
+                <option value="received">Order received</option>
+                <option value="score">Weighted score</option>
+              </select>
+            </div>
             {appsForCourse.length === 0 ? (
               <div className="text-sm text-gray-600 mt-2">
                 No applicants yet.
               </div>
             ) : (
               <div className="mt-3 grid gap-2">
-                {appsForCourse.map((a) => (
-                  <div
-                    key={a.id}
-                    className="rounded-xl border px-3 py-2 bg-slate-50 flex items-center justify-between"
-                  >
-                    <div className="text-sm">
-                      <div className="font-medium">
-                        Applicant #{a.id.slice(-5)}
+                {listed.map((a) => {
+                  const interview = bookedSlot(interviewSlots, a.id);
+                  return (
+                    <div
+                      key={a.id}
+                      className="rounded-xl border px-3 py-2 bg-slate-50 flex items-center justify-between"
+                    >
+                      <div className="flex items-start gap-3 text-sm">
+                        {canDecide && (
+                          <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={selected.has(a.id)}
+                            onChange={() => toggleSelected(a.id)}
+                            aria-label={`Select ${nameOf(a)}`}
+                          />
+                        )}
+                        <div>
+                          <div className="font-medium">
+                            {nameOf(a)}
+                          </div>
+                          <div className="text-gray-600">{a.course}</div>
+                          <div className="mt-1">
+                            <StatusChip status={a.status} />
+                          </div>
+                          {interview && (
+                            <div className="mt-1 text-xs text-gray-700">
+                              Interview: {formatInterviewTime(interview)}
+                            </div>
+                          )}
+                        </div>
                       </div>
-                      <div className="text-gray-600">{a.course}</div>
-                      <div className="mt-1">
-                        <StatusChip status={a.status} />
+                      <div className="flex items-center gap-2">
+                        <ScoreBadge
+                          score={weightedScore(a.scores, profPosting.rubric)}
+                        />
+                        {canDecide &&
+                          (canWaitlist(a) ||
+                            profPosting.waitlist.includes(a.id)) && (
+                          <button
+                            className="border rounded-lg px-3 py-1.5 text-xs"
+                            style={{ borderColor: PRIMARY, color: PRIMARY }}
+                            onClick={() => toggleWaitlist(a)}
+                          >
+                            {profPosting.waitlist.includes(a.id)
+                              ? `Waitlist #${
+                                  profPosting.waitlist.indexOf(a.id) + 1
+                                } ✕`
+                              : "Waitlist"}
+                          </button>
+                        )}
+                        <button
+                          className="border rounded-lg px-3 py-1.5 text-sm"
+                          style={{ borderColor: PRIMARY, color: PRIMARY }}
+                          onClick={() => openApplication(a)}
+                        >
+                          Open
+                        </button>
                       </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <button
-                        className="border rounded-lg px-3 py-1.5 text-sm"
-                        style={{ borderColor: PRIMARY, color: PRIMARY }}
-                        onClick={() => setActive(a)}
-                      >
-                        Open
-                      </button>
-                    </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
+          {waitlisted.length > 0 && (
+            <div className="rounded-2xl border bg-white p-4 grid gap-2 text-sm">
+              <div className="flex items-center justify-between">
+                <div className="font-medium" style={{ color: PRIMARY }}>
+                  Waitlist
+                </div>
+                <button
+                  className="border rounded-lg px-2 py-1 text-xs disabled:opacity-40"
+                  style={{ borderColor: PRIMARY, color: PRIMARY }}
+                  disabled={!canDecide}
+                  onClick={() =>
+                    updateWaitlist(() =>
+                      rankByScore(waitlisted, profPosting.rubric).map(
+                        (a) => a.id
+                      )
+                    )
+                  }
+                >
+                  Order by score
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                When a position frees up (an offer is declined or expires, or a
+                TA withdraws), the applicant at the top is sent an offer
+                automatically.
+              </p>
+              <ol className="grid gap-1">
+                {waitlisted.map((a, i) => (
+                  <li
+                    key={a.id}
+                    className="flex items-center gap-2 rounded-lg border px-3 py-1.5"
+                  >
+                    <span className="w-6 text-gray-500">{i + 1}.</span>
+                    <span>{nameOf(a)}</span>
+                    <ScoreBadge
+                      score={weightedScore(a.scores, profPosting.rubric)}
+                    />
+                    {canDecide && (
+                      <span className="ml-auto flex gap-1">
+                        <button
+                          className="border rounded-lg px-2 py-0.5 text-xs disabled:opacity-40"
+                          disabled={i === 0}
+                          onClick={() => moveWaitlisted(a.id, -1)}
+                          aria-label="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          className="border rounded-lg px-2 py-0.5 text-xs disabled:opacity-40"
+                          disabled={i === waitlisted.length - 1}
+                          onClick={() => moveWaitlisted(a.id, 1)}
+                          aria-label="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          className="border rounded-lg px-2 py-0.5 text-xs text-red-700 border-red-300"
+                          onClick={() => toggleWaitlist(a)}
+                        >
+                          Remove
+                        </button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
         </div>
       </section>
 
+      {canDecide && (
+        <InterviewSlotsPanel
+          posting={profPosting}
+          applications={applications}
+          slots={interviewSlots}
+          setSlots={(update) => {
+            if (guard(profPosting, "change interview slots", "decide")) {
+              setInterviewSlots(update);
+            }
+          }}
+          now={now}
+          pingStudent={pingStudent}
+        />
+      )}
+
       {active && (
         <Dialog onClose={() => setActive(null)}>
           <div className="w-full max-w-xl">
@@ -1374,10 +4688,81 @@ function ProfessorView(props: {
             </div>
             <div className="text-sm text-gray-600">ID: {active.id}</div>
             <div className="rounded-xl border bg-white p-3 mt-3">
-              <div className="font-medium">Uploaded Files</div>
-              <ul className="list-disc pl-5 text-sm mt-1 space-y-1">
-                <li>Resume: {active.resume?.name || "N/A"}</li>
-                <li>Transcript: {active.transcript?.name || "N/A"}</li>
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-medium">Applicant</div>
+                {activeHidden && canDecide && (
+                  <button
+                    className="border rounded-lg px-2 py-1 text-xs"
+                    style={{ borderColor: PRIMARY, color: PRIMARY }}
+                    onClick={() => revealIdentity(active)}
+                  >
+                    Reveal identity
+                  </button>
+                )}
+              </div>
+              {activeHidden && (
+                <div className="text-xs text-gray-500 mt-1">
+                  Blind review: name, student number and email show once the
+                  application reaches the interview stage.
+                </div>
+              )}
+              {active.student ? (
+                <dl className="text-sm mt-1 grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5">
+                  {!activeHidden && (
+                    <>
+                      <dt className="text-gray-500">Name</dt>
+                      <dd>{active.student.name}</dd>
+                      <dt className="text-gray-500">Student #</dt>
+                      <dd>{active.student.studentNumber}</dd>
+                      <dt className="text-gray-500">Email</dt>
+                      <dd>
+                        <a
+                          className="underline"
+                          href={`mailto:${active.student.email}`}
+                        >
+                          {active.student.email}
+                        </a>
+                      </dd>
+                    </>
+                  )}
+                  <dt className="text-gray-500">Program</dt>
+                  <dd>
+                    {active.student.program || "—"}
+                    {active.student.year !== null &&
+                      `, year ${active.student.year}`}
+                  </dd>
+                  <dt className="text-gray-500">
+                    Grade in {profPosting.code}
+                  </dt>
+                  <dd>
+                    {courseGrade(active.student, profPosting.code) ??
+                      "Not reported"}
+                  </dd>
+                  <dt className="text-gray-500">TA experience</dt>
+                  <dd className="whitespace-pre-wrap">
+                    {active.student.taExperience || "None listed"}
+                  </dd>
+                </dl>
+              ) : (
+                <div className="text-sm text-gray-500 mt-1">
+                  Submitted before student profiles; the student hasn't
+                  saved one since.
+                </div>
+              )}
+            </div>
+            <div className="rounded-xl border bg-white p-3 mt-3">
+              <div className="font-medium">Uploaded Files</div>
+              <ul className="list-disc pl-5 text-sm mt-1 space-y-1">
+                <li>
+                  Resume:{" "}
+                  {activeResume ? describeDoc(activeResume) : "N/A"}
+                  <ViewDocButton doc={activeResume} onView={setViewing} />
+                </li>
+                <li>
+                  Transcript:{" "}
+                  {activeTranscript ? describeDoc(activeTranscript) : "N/A"}
+                  <ViewDocButton doc={activeTranscript} onView={setViewing} />
+                </li>
               </ul>
             </div>
             <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2">
@@ -1387,52 +4772,1744 @@ function ProfessorView(props: {
                   ? active.note
                   : "(No note provided)"}
               </div>
-            </div>
-            <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2">
-              <div className="font-medium text-sm">Update status</div>
-              <div className="flex flex-wrap gap-2">
-                <button
-                  className="border rounded-lg px-3 py-1.5 text-xs"
-                  style={{ borderColor: PRIMARY, color: PRIMARY }}
-                  onClick={() => updateStatus(active, "reviewed")}
-                >
-                  Mark Reviewed
-                </button>
-                <button
-                  className="border rounded-lg px-3 py-1.5 text-xs"
-                  style={{ borderColor: PRIMARY, color: PRIMARY }}
-                  onClick={() => updateStatus(active, "interview")}
-                >
-                  Mark Interview
-                </button>
-                <button
-                  className="border rounded-lg px-3 py-1.5 text-xs"
-                  style={{ borderColor: "#16A34A", color: "#166534" }}
-                  onClick={() => updateStatus(active, "accepted")}
-                >
-                  Accept
-                </button>
-                <button
-                  className="border rounded-lg px-3 py-1.5 text-xs"
-                  style={{ borderColor: "#DC2626", color: "#B91C1C" }}
-                  onClick={() => updateStatus(active, "rejected")}
-                >
-                  Reject
-                </button>
+            </div>
+            {activeInterview && (
+              <div className="rounded-xl border bg-white p-3 mt-3 text-sm">
+                <span className="font-medium">Interview:</span>{" "}
+                {formatInterviewTime(activeInterview)}
+              </div>
+            )}
+            <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2">
+              <div className="flex items-center justify-between">
+                <div className="font-medium text-sm">Rubric score</div>
+                {activeScore && <ScoreBadge score={activeScore} />}
+              </div>
+              {profPosting.rubric.map((c) => (
+                <label
+                  key={c.id}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span>
+                    {c.label}{" "}
+                    <span className="text-xs text-gray-500">
+                      (weight {c.weight})
+                    </span>
+                  </span>
+                  <select
+                    className="border rounded-lg px-2 py-1"
+                    value={active.scores[c.id] ?? ""}
+                    onChange={(e) =>
+                      setScore(
+                        active,
+                        c.id,
+                        e.target.value === "" ? null : Number(e.target.value)
+                      )
+                    }
+                  >
+                    <option value="">–</option>
+                    {Array.from({ length: SCORE_MAX + 1 }, (_, v) => (
+                      <option key={v} value={v}>
+                        {v}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <p className="text-xs text-gray-500">
+                Scores are private to the posting's staff. Edit the posting
+                to change the criteria or weights.
+              </p>
+            </div>
+            {canDecide ? (
+              <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2">
+                <div className="font-medium text-sm">Update status</div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    className="border rounded-lg px-3 py-1.5 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ borderColor: PRIMARY, color: PRIMARY }}
+                    onClick={() => startCompose("reviewed")}
+                    disabled={!allowed.includes("reviewed")}
+                    title={statusButtonTitle("reviewed")}
+                  >
+                    Mark Reviewed
+                  </button>
+                  <button
+                    className="border rounded-lg px-3 py-1.5 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ borderColor: PRIMARY, color: PRIMARY }}
+                    onClick={() => startCompose("interview")}
+                    disabled={!allowed.includes("interview")}
+                    title={statusButtonTitle("interview")}
+                  >
+                    Mark Interview
+                  </button>
+                  <button
+                    className="border rounded-lg px-3 py-1.5 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ borderColor: "#16A34A", color: "#166534" }}
+                    onClick={() => startCompose("offered")}
+                    disabled={!allowed.includes("offered") || !!offerBlocked}
+                    title={
+                      statusButtonTitle("offered") ?? offerBlocked ?? undefined
+                    }
+                  >
+                    Send Offer
+                  </button>
+                  <button
+                    className="border rounded-lg px-3 py-1.5 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ borderColor: "#DC2626", color: "#B91C1C" }}
+                    onClick={() => startCompose("rejected")}
+                    disabled={!allowed.includes("rejected")}
+                    title={statusButtonTitle("rejected")}
+                  >
+                    Reject
+                  </button>
+                </div>
+                {compose && (
+                  <div className="grid gap-2 border-t pt-2 text-sm">
+                    <div className="font-medium">
+                      Message for{" "}
+                      <span style={{ color: PRIMARY }}>{compose.status}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        className="border rounded-lg px-2 py-1"
+                        value={compose.templateId}
+                        onChange={(e) => {
+                          const t = templates.find(
+                            (x) => x.id === e.target.value
+                          );
+                          setCompose({
+                            ...compose,
+                            templateId: t?.id ?? "",
+                            body: t?.body ?? DEFAULT_NEXT_STEP[compose.status],
+                          });
+                        }}
+                      >
+                        <option value="">Standard message</option>
+                        {composeTemplates.map((t) => (
+                          <option key={t.id} value={t.id}>
+                            {t.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        className="border rounded-lg px-2 py-1 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+                        style={{ borderColor: PRIMARY, color: PRIMARY }}
+                        disabled={composeIsDefault}
+                        onClick={() =>
+                          setDefaultTemplate(compose.status, compose.templateId)
+                        }
+                      >
+                        {composeIsDefault
+                          ? `Default for ${profPosting.code}`
+                          : `Make default for ${profPosting.code}`}
+                      </button>
+                      {compose.templateId && (
+                        <button
+                          className="border rounded-lg px-2 py-1 text-xs text-red-700 border-red-300"
+                          onClick={() => deleteTemplate(compose.templateId)}
+                        >
+                          Delete template
+                        </button>
+                      )}
+                    </div>
+                    {compose.status === "offered" && (
+                      <label className="flex flex-wrap items-center gap-2">
+                        <span>Student must respond by</span>
+                        <input
+                          type="datetime-local"
+                          className="border rounded-lg px-2 py-1"
+                          value={compose.respondBy}
+                          onChange={(e) =>
+                            setCompose({ ...compose, respondBy: e.target.value })
+                          }
+                        />
+                        <span className="text-xs text-gray-500">
+                          Unanswered offers expire and you'll be notified.
+                        </span>
+                      </label>
+                    )}
+                    <textarea
+                      rows={3}
+                      className="border rounded-lg px-3 py-2"
+                      value={compose.body}
+                      onChange={(e) =>
+                        setCompose({ ...compose, body: e.target.value })
+                      }
+                    />
+                    <div className="text-xs text-gray-500">
+                      Placeholders:{" "}
+                      {TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(" ")}
+                    </div>
+                    <div className="rounded-lg bg-slate-50 px-3 py-2">
+                      <div className="text-xs text-gray-500">Student will see</div>
+                      <div className="whitespace-pre-wrap">
+                        {renderTemplate(compose.body, previewVars)}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        className="border rounded-lg px-3 py-1.5 text-xs text-white"
+                        style={{ background: PRIMARY, borderColor: PRIMARY }}
+                        onClick={sendStatus}
+                      >
+                        Send & update status
+                      </button>
+                      <button
+                        className="border rounded-lg px-3 py-1.5 text-xs"
+                        style={{ borderColor: PRIMARY, color: PRIMARY }}
+                        onClick={saveTemplate}
+                      >
+                        Save as template
+                      </button>
+                      <button
+                        className="border rounded-lg px-3 py-1.5 text-xs"
+                        onClick={() => setCompose(null)}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">
+                  When you update the status, the student will see the new status
+                  and next step in their "My Applications" tab.
+                </p>
+              </div>
+            ) : (
+              <div className="rounded-xl border bg-white p-3 mt-3 text-sm text-gray-600">
+                As a {role ?? "reviewer"} you can score and comment; status
+                changes are up to the instructors.
+              </div>
+            )}
+            <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2">
+              <div className="font-medium text-sm">Review notes</div>
+              {active.reviews.length === 0 ? (
+                <div className="text-sm text-gray-500">
+                  No scores or comments yet.
+                </div>
+              ) : (
+                <ul className="grid gap-1 text-sm">
+                  {active.reviews.map((r, i) => (
+                    <li key={i}>
+                      <span className="text-xs text-gray-500">
+                        {r.by} • {new Date(r.at).toLocaleString()}
+                      </span>
+                      <div
+                        className={
+                          r.kind === "score"
+                            ? "text-gray-600 italic"
+                            : "text-gray-800 whitespace-pre-wrap"
+                        }
+                      >
+                        {r.text}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <textarea
+                rows={2}
+                className="border rounded-lg px-3 py-2 text-sm"
+                placeholder="Add a comment for the other reviewers"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+              <button
+                className="justify-self-end border rounded-lg px-3 py-1.5 text-xs"
+                style={{ borderColor: PRIMARY, color: PRIMARY }}
+                onClick={() => addComment(active)}
+              >
+                Add comment
+              </button>
+            </div>
+            <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2">
+              <div className="font-medium text-sm">Status history</div>
+              <StatusTimeline
+                history={
+                  activeHidden
+                    ? redactHistory(active, anonymousName(active))
+                    : active.history
+                }
+              />
+            </div>
+          </div>
+        </Dialog>
+      )}
+
+      {viewing && (
+        <Dialog onClose={() => setViewing(null)}>
+          <PdfViewer doc={viewing} />
+        </Dialog>
+      )}
+
+      {editor}
+
+      {reopening && (
+        <Dialog onClose={() => setReopening(false)}>
+          <ReopenPostingForm
+            posting={profPosting}
+            now={clock.now()}
+            onReopen={reopen}
+          />
+        </Dialog>
+      )}
+    </div>
+  );
+}
+
+// ---------------- Professor: Interview slots ----------------
+function InterviewSlotsPanel(props: {
+  posting: Posting;
+  applications: Application[];
+  slots: InterviewSlot[];
+  setSlots: React.Dispatch<React.SetStateAction<InterviewSlot[]>>;
+  now: number;
+  pingStudent: (appId: string, msg: string) => void;
+}) {
+  const { posting, applications, slots, setSlots, now, pingStudent } = props;
+  const [start, setStart] = useState("");
+  const [minutes, setMinutes] = useState(20);
+  const [count, setCount] = useState(1);
+  const [location, setLocation] = useState("");
+  // slot being moved and its new start (datetime-local value)
+  const [moving, setMoving] = useState<{ id: string; start: string } | null>(
+    null
+  );
+
+  const mine = slots
+    .filter((s) => s.postingId === posting.id)
+    .sort((a, b) => a.start - b.start);
+  const bookedName = (appId: string) => {
+    const app = applications.find((a) => a.id === appId);
+    return app ? applicantName(app) : `Applicant #${appId.slice(-5)}`;
+  };
+
+  const publish = () => {
+    const planned = planInterviewSlots(
+      {
+        postingId: posting.id,
+        start: fromLocalInput(start) ?? NaN,
+        minutes,
+        count,
+        location,
+      },
+      () => `slot-${cryptoId()}`
+    );
+    const check = validateInterviewSlots(planned, slots, now);
+    if (!check.ok) {
+      alert(check.msg);
+      return;
+    }
+    setSlots((list) => [...list, ...planned]);
+    setStart("");
+  };
+
+  const reschedule = (slot: InterviewSlot) => {
+    if (!moving) return;
+    let next: InterviewSlot[];
+    try {
+      next = rescheduleSlot(
+        slots,
+        slot.id,
+        fromLocalInput(moving.start) ?? NaN,
+        now
+      );
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    }
+    setSlots(next);
+    setMoving(null);
+    const moved = next.find((s) => s.id === slot.id);
+    if (slot.bookedBy && moved) {
+      pingStudent(
+        slot.bookedBy,
+        `${posting.code} interview moved to ${formatInterviewTime(moved)}`
+      );
+    }
+  };
+
+  const cancel = (slot: InterviewSlot) => {
+    const sure = window.confirm(
+      slot.bookedBy
+        ? `${bookedName(slot.bookedBy)} booked this slot. Cancel ` +
+            "it anyway? They will be notified and can book another time."
+        : "Remove this interview slot?"
+    );
+    if (!sure) return;
+    setSlots((list) => list.filter((s) => s.id !== slot.id));
+    if (slot.bookedBy) {
+      pingStudent(
+        slot.bookedBy,
+        `${posting.code} interview on ${formatInterviewTime(slot)} was ` +
+          "cancelled – please book a new time"
+      );
+    }
+  };
+
+  const inputCls = "border rounded-lg px-2 py-1";
+
+  return (
+    <section className="rounded-2xl border bg-white p-4 grid gap-3 text-sm">
+      <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
+        Interview slots
+      </h2>
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="grid gap-1">
+          <span className="text-xs text-gray-600">First slot starts</span>
+          <input
+            type="datetime-local"
+            className={inputCls}
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs text-gray-600">Length</span>
+          <select
+            className={inputCls}
+            value={minutes}
+            onChange={(e) => setMinutes(Number(e.target.value))}
+          >
+            {[15, 20, 30, 45, 60].map((m) => (
+              <option key={m} value={m}>
+                {m} min
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs text-gray-600">Back-to-back slots</span>
+          <input
+            type="number"
+            min={1}
+            max={12}
+            className={`${inputCls} w-20`}
+            value={count}
+            onChange={(e) =>
+              setCount(Math.min(12, Math.max(1, Number(e.target.value) || 1)))
+            }
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs text-gray-600">Location</span>
+          <input
+            className={inputCls}
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="e.g. ITB 229 or Teams"
+          />
+        </label>
+        <button
+          className="border rounded-lg px-3 py-1.5 text-white"
+          style={{ background: PRIMARY, borderColor: PRIMARY }}
+          onClick={publish}
+        >
+          Publish
+        </button>
+      </div>
+      {mine.length === 0 ? (
+        <div className="text-gray-600">
+          No interview slots yet. Applicants at the interview stage can book
+          once you publish some.
+        </div>
+      ) : (
+        <ul className="grid gap-1">
+          {mine.map((s) => (
+            <li
+              key={s.id}
+              className={`flex flex-wrap items-center gap-2 rounded-lg border px-3 py-1.5 ${
+                s.start <= now ? "text-gray-400" : ""
+              }`}
+            >
+              <span>{formatInterviewTime(s)}</span>
+              <span
+                className="text-xs"
+                style={{ color: s.bookedBy ? PRIMARY : undefined }}
+              >
+                {s.bookedBy
+                  ? `Booked by ${bookedName(s.bookedBy)}`
+                  : "Open"}
+              </span>
+              {s.start > now && (
+                <span className="ml-auto flex items-center gap-2">
+                  {moving?.id === s.id ? (
+                    <>
+                      <input
+                        type="datetime-local"
+                        className={inputCls}
+                        value={moving.start}
+                        onChange={(e) =>
+                          setMoving({ id: s.id, start: e.target.value })
+                        }
+                      />
+                      <button
+                        className="border rounded-lg px-2 py-1 text-xs"
+                        style={{ borderColor: PRIMARY, color: PRIMARY }}
+                        onClick={() => reschedule(s)}
+                      >
+                        Save
+                      </button>
+                      <button
+                        className="border rounded-lg px-2 py-1 text-xs"
+                        onClick={() => setMoving(null)}
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        className="border rounded-lg px-2 py-1 text-xs"
+                        style={{ borderColor: PRIMARY, color: PRIMARY }}
+                        onClick={() =>
+                          setMoving({ id: s.id, start: toLocalInput(s.start) })
+                        }
+                      >
+                        Reschedule
+                      </button>
+                      <button
+                        className="border rounded-lg px-2 py-1 text-xs text-red-700 border-red-300"
+                        onClick={() => cancel(s)}
+                      >
+                        {s.bookedBy ? "Cancel interview" : "Remove"}
+                      </button>
+                    </>
+                  )}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function ScoreBadge({ score }: { score: WeightedScore }) {
+  if (score.score === null) {
+    return <span className="text-xs text-gray-500">Not scored</span>;
+  }
+  return (
+    <span
+      className="text-xs rounded-full border px-2 py-0.5"
+      style={{ borderColor: PRIMARY, color: PRIMARY }}
+      title={`${score.scored} of ${score.total} criteria scored`}
+    >
+      {score.score}/100
+      {score.scored < score.total && ` (${score.scored}/${score.total})`}
+    </span>
+  );
+}
+
+function ReopenPostingForm(props: {
+  posting: Posting;
+  now: number;
+  onReopen: (deadline: number | null | undefined) => void;
+}) {
+  const { posting, now, onReopen } = props;
+  const deadlinePassed = posting.deadline !== null && posting.deadline <= now;
+  const [mode, setMode] = useState<"keep" | "new" | "none">(
+    deadlinePassed ? "new" : "keep"
+  );
+  const [deadline, setDeadline] = useState(toLocalInput(now + 7 * DAY));
+
+  return (
+    <div className="w-full max-w-md text-sm">
+      <div className="text-lg font-semibold" style={{ color: PRIMARY }}>
+        Reopen {posting.code}
+      </div>
+      <div className="mt-3 grid gap-2">
+        {!deadlinePassed && posting.deadline !== null && (
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="radio"
+              checked={mode === "keep"}
+              onChange={() => setMode("keep")}
+            />
+            Keep current deadline (
+            {new Date(posting.deadline).toLocaleString()})
+          </label>
+        )}
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="radio"
+            checked={mode === "new"}
+            onChange={() => setMode("new")}
+          />
+          New deadline
+          <input
+            type="datetime-local"
+            className="border rounded-lg px-2 py-1"
+            value={deadline}
+            onChange={(e) => {
+              setDeadline(e.target.value);
+              setMode("new");
+            }}
+          />
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="radio"
+            checked={mode === "none"}
+            onChange={() => setMode("none")}
+          />
+          No deadline
+        </label>
+      </div>
+      <button
+        className="mt-3 border rounded-xl px-4 py-2 text-sm text-white"
+        style={{ background: PRIMARY, borderColor: PRIMARY }}
+        onClick={() =>
+          onReopen(
+            mode === "keep"
+              ? undefined
+              : mode === "none"
+              ? null
+              : fromLocalInput(deadline)
+          )
+        }
+      >
+        Reopen posting
+      </button>
+    </div>
+  );
+}
+
+// ---------------- Professor: Posting Editor ----------------
+function PostingEditor(props: {
+  initial?: Posting;
+  now: number;
+  defaultProfessor: string;
+  /** only the owner (or a new posting's creator) changes the staff */
+  canEditStaff: boolean;
+  /** the coordinator requires blind review for every posting */
+  blindRequired: boolean;
+  onSave: (draft: PostingDraft) => void;
+  onCancel: () => void;
+}) {
+  const {
+    initial,
+    now,
+    defaultProfessor,
+    canEditStaff,
+    blindRequired,
+    onSave,
+    onCancel,
+  } = props;
+  const [draft, setDraft] = useState<PostingDraft>(() =>
+    initial
+      ? {
+          code: initial.code,
+          title: initial.title,
+          professor: initial.professor,
+          staff: initial.staff,
+          classMeetings: initial.classMeetings,
+          tutorialSlots: initial.tutorialSlots,
+          description: initial.description,
+          requiredQualifications: initial.requiredQualifications,
+          opensAt: initial.opensAt,
+          deadline: initial.deadline,
+          rubric: initial.rubric,
+          positions: initial.positions,
+          hoursPerPosition: initial.hoursPerPosition,
+          defaultTemplates: initial.defaultTemplates,
+          blindReview: initial.blindReview,
+        }
+      : emptyPostingDraft(defaultProfessor, now)
+  );
+  // typed as text, stored as structured meetings (parsed on every change)
+  const [classTimeText, setClassTimeText] = useState(
+    draft.classMeetings.length > 0 ? formatMeetings(draft.classMeetings) : ""
+  );
+  const classTimeParsed = parseMeetings(classTimeText);
+  // edited as free text (one per line) so blank lines survive while typing
+  const [qualText, setQualText] = useState(
+    draft.requiredQualifications.join("\n")
+  );
+
+  const set = <K extends keyof PostingDraft>(k: K, v: PostingDraft[K]) =>
+    setDraft((d) => ({ ...d, [k]: v }));
+  const setSlot = (i: number, patch: Partial<TutorialSlot>) =>
+    set(
+      "tutorialSlots",
+      draft.tutorialSlots.map((t, j) => (j === i ? { ...t, ...patch } : t))
+    );
+  const setCriterion = (i: number, patch: Partial<RubricCriterion>) =>
+    set(
+      "rubric",
+      draft.rubric.map((c, j) => (j === i ? { ...c, ...patch } : c))
+    );
+  const setStaffMember = (i: number, patch: Partial<StaffMember>) =>
+    set(
+      "staff",
+      draft.staff.map((s, j) => (j === i ? { ...s, ...patch } : s))
+    );
+  const totalWeight = draft.rubric.reduce((sum, c) => sum + c.weight, 0);
+
+  const inputCls = "border rounded-lg px-3 py-2 text-sm w-full";
+
+  return (
+    <div className="w-full max-w-2xl max-h-[80vh] overflow-y-auto pr-1">
+      <div className="text-lg font-semibold" style={{ color: PRIMARY }}>
+        {initial ? `Edit Posting – ${initial.code}` : "New Posting"}
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-3 mt-3 text-sm">
+        <label className="grid gap-1">
+          <span className="font-medium">Course code</span>
+          <input
+            className={inputCls}
+            value={draft.code}
+            onChange={(e) => set("code", e.target.value)}
+            placeholder="e.g. 2HC3"
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">Professor</span>
+          <input
+            className={inputCls}
+            value={draft.professor}
+            onChange={(e) => set("professor", e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1 sm:col-span-2">
+          <span className="font-medium">Title</span>
+          <input
+            className={inputCls}
+            value={draft.title}
+            onChange={(e) => set("title", e.target.value)}
+            placeholder="e.g. SFWRENG 2HC3 – Human-Computer Interfaces"
+          />
+        </label>
+        <label className="grid gap-1 sm:col-span-2">
+          <span className="font-medium">Class time</span>
+          <input
+            className={inputCls}
+            value={classTimeText}
+            onChange={(e) => {
+              setClassTimeText(e.target.value);
+              set("classMeetings", parseMeetings(e.target.value) ?? []);
+            }}
+            placeholder="e.g. Mon 14:30–16:20 (ITB 137); Wed/Fri 9:30-10:20 JHE 264"
+          />
+          <span
+            className={`text-xs ${
+              classTimeParsed || !classTimeText.trim()
+                ? "text-gray-500"
+                : "text-red-700"
+            }`}
+          >
+            {classTimeParsed
+              ? `Saved as: ${formatMeetings(classTimeParsed)}`
+              : classTimeText.trim()
+              ? "Couldn't read this – use days, a time range and an optional room."
+              : "Days, time range and room; separate meeting patterns with ;"}
+          </span>
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">Applications open</span>
+          <input
+            type="datetime-local"
+            className={inputCls}
+            value={toLocalInput(draft.opensAt)}
+            onChange={(e) =>
+              set("opensAt", fromLocalInput(e.target.value) ?? now)
+            }
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">
+            Deadline{" "}
+            <span className="text-gray-500 font-normal">
+              (empty = no deadline)
+            </span>
+          </span>
+          <input
+            type="datetime-local"
+            className={inputCls}
+            value={toLocalInput(draft.deadline)}
+            onChange={(e) => set("deadline", fromLocalInput(e.target.value))}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">TA positions</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            className={inputCls}
+            value={draft.positions}
+            onChange={(e) => set("positions", Number(e.target.value))}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">Hours per position (term)</span>
+          <input
+            type="number"
+            min={1}
+            className={inputCls}
+            value={draft.hoursPerPosition}
+            onChange={(e) => set("hoursPerPosition", Number(e.target.value))}
+          />
+        </label>
+      </div>
+
+      <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2 text-sm">
+        <div className="font-medium">Tutorial slots</div>
+        {draft.tutorialSlots.map((t, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <select
+              className="border rounded-lg px-2 py-1"
+              value={t.day}
+              onChange={(e) =>
+                setSlot(i, { day: e.target.value as TutorialSlot["day"] })
+              }
+            >
+              {WEEKDAYS.map((d) => (
+                <option key={d} value={d}>
+                  {d}
+                </option>
+              ))}
+            </select>
+            <input
+              type="time"
+              className="border rounded-lg px-2 py-1"
+              value={t.start}
+              onChange={(e) => setSlot(i, { start: e.target.value })}
+            />
+            <span>–</span>
+            <input
+              type="time"
+              className="border rounded-lg px-2 py-1"
+              value={t.end}
+              onChange={(e) => setSlot(i, { end: e.target.value })}
+            />
+            <button
+              className="ml-auto border rounded-lg px-2 py-1 text-xs text-red-700 border-red-300"
+              onClick={() =>
+                set(
+                  "tutorialSlots",
+                  draft.tutorialSlots.filter((_, j) => j !== i)
+                )
+              }
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          className="justify-self-start border rounded-lg px-3 py-1 text-xs"
+          style={{ borderColor: PRIMARY, color: PRIMARY }}
+          onClick={() =>
+            set("tutorialSlots", [
+              ...draft.tutorialSlots,
+              { day: "Mon", start: "09:30", end: "10:20" },
+            ])
+          }
+        >
+          Add slot
+        </button>
+      </div>
+
+      <div className="grid gap-3 mt-3 text-sm">
+        <label className="grid gap-1">
+          <span className="font-medium">Description</span>
+          <textarea
+            rows={3}
+            className={inputCls}
+            value={draft.description}
+            onChange={(e) => set("description", e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="font-medium">
+            Required qualifications{" "}
+            <span className="text-gray-500 font-normal">(one per line)</span>
+          </span>
+          <textarea
+            rows={3}
+            className={inputCls}
+            value={qualText}
+            onChange={(e) => setQualText(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2 text-sm">
+        <div className="font-medium">Scoring rubric</div>
+        <div className="text-xs text-gray-500">
+          Each criterion is scored 0–{SCORE_MAX} per applicant. Weights are
+          relative; a criterion with weight 0 is ignored.
+        </div>
+        {draft.rubric.map((c, i) => (
+          <div key={c.id} className="flex items-center gap-2">
+            <input
+              className="border rounded-lg px-2 py-1 flex-1"
+              value={c.label}
+              onChange={(e) => setCriterion(i, { label: e.target.value })}
+              placeholder="e.g. Relevant experience"
+            />
+            <input
+              type="number"
+              min={0}
+              className="border rounded-lg px-2 py-1 w-20"
+              value={c.weight}
+              onChange={(e) =>
+                setCriterion(i, { weight: Number(e.target.value) })
+              }
+              aria-label={`Weight for ${c.label || "criterion"}`}
+            />
+            <span className="w-12 text-xs text-gray-500">
+              {totalWeight > 0
+                ? `${Math.round((c.weight / totalWeight) * 100)}%`
+                : "–"}
+            </span>
+            <button
+              className="border rounded-lg px-2 py-1 text-xs text-red-700 border-red-300"
+              onClick={() =>
+                set("rubric", draft.rubric.filter((_, j) => j !== i))
+              }
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          className="justify-self-start border rounded-lg px-3 py-1 text-xs"
+          style={{ borderColor: PRIMARY, color: PRIMARY }}
+          onClick={() =>
+            set("rubric", [
+              ...draft.rubric,
+              { id: `crit-${cryptoId()}`, label: "", weight: 10 },
+            ])
+          }
+        >
+          Add criterion
+        </button>
+      </div>
+
+      <div className="rounded-xl border bg-white p-3 mt-3 grid gap-2 text-sm">
+        <div className="font-medium">Staff</div>
+        <div className="text-xs text-gray-500">
+          Co-instructors share the work on this posting; reviewers (e.g. a
+          lead TA) can only score and comment.
+          {!canEditStaff && " Only the owner can change the staff."}
+        </div>
+        {draft.staff.map((s, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              className="border rounded-lg px-2 py-1 flex-1 disabled:bg-slate-50"
+              value={s.name}
+              disabled={!canEditStaff}
+              onChange={(e) => setStaffMember(i, { name: e.target.value })}
+              placeholder="Name"
+            />
+            <select
+              className="border rounded-lg px-2 py-1"
+              value={s.role}
+              disabled={!canEditStaff}
+              onChange={(e) =>
+                setStaffMember(i, {
+                  role: e.target.value as StaffMember["role"],
+                })
+              }
+            >
+              <option value="co-instructor">Co-instructor</option>
+              <option value="reviewer">Reviewer</option>
+            </select>
+            {canEditStaff && (
+              <button
+                className="border rounded-lg px-2 py-1 text-xs text-red-700 border-red-300"
+                onClick={() =>
+                  set("staff", draft.staff.filter((_, j) => j !== i))
+                }
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+        {canEditStaff && (
+          <button
+            className="justify-self-start border rounded-lg px-3 py-1 text-xs"
+            style={{ borderColor: PRIMARY, color: PRIMARY }}
+            onClick={() =>
+              set("staff", [...draft.staff, { name: "", role: "reviewer" }])
+            }
+          >
+            Add staff member
+          </button>
+        )}
+      </div>
+
+      <label className="rounded-xl border bg-white p-3 mt-3 flex items-start gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={blindRequired || draft.blindReview}
+          disabled={blindRequired}
+          onChange={(e) => set("blindReview", e.target.checked)}
+        />
+        <span>
+          <span className="font-medium">Blind first-round review</span>
+          <span className="block text-xs text-gray-500">
+            Hides applicants' names, student numbers, emails and file names
+            until they reach the interview stage.
+            {blindRequired && " Required by the department."}
+          </span>
+        </span>
+      </label>
+
+      <div className="mt-3 flex items-center gap-2">
+        <button
+          className="border rounded-xl px-4 py-2 text-sm text-white"
+          style={{ background: PRIMARY, borderColor: PRIMARY }}
+          onClick={() =>
+            onSave({
+              ...draft,
+              code: draft.code.trim(),
+              title: draft.title.trim(),
+              professor: draft.professor.trim(),
+              description: draft.description.trim(),
+              requiredQualifications: qualText
+                .split("\n")
+                .map((q) => q.trim())
+                .filter(Boolean),
+            })
+          }
+        >
+          {initial ? "Save posting" : "Create posting"}
+        </button>
+        <button
+          className="border rounded-xl px-4 py-2 text-sm"
+          style={{ borderColor: PRIMARY, color: PRIMARY }}
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ---------------- Coordinator ----------------
+function CoordinatorView(props: {
+  clock: AppClock;
+  user: User;
+  postings: Posting[];
+  setPostings: React.Dispatch<React.SetStateAction<Posting[]>>;
+  applications: Application[];
+  setApplications: React.Dispatch<React.SetStateAction<Application[]>>;
+  templates: MessageTemplate[];
+  interviewSlots: InterviewSlot[];
+  accessLog: AccessDenial[];
+  requireBlindReview: boolean;
+  setRequireBlindReview: (required: boolean) => void;
+  revealLog: IdentityReveal[];
+  notify: (title: string, body: string) => void;
+}) {
+  const {
+    clock,
+    user,
+    postings,
+    setPostings,
+    applications,
+    setApplications,
+    templates,
+    interviewSlots,
+    accessLog,
+    requireBlindReview,
+    setRequireBlindReview,
+    revealLog,
+    notify,
+  } = props;
+  const now = useNow(clock);
+
+  const [filters, setFilters] = usePersistedState(dashboardFiltersKey);
+  const shown = applyDashboardFilters(applications, filters, now);
+  const staleCount = applications.filter((a) =>
+    isStale(a, now, filters.staleDays)
+  ).length;
+  // the application's own copy once the posting is deleted
+  const courseOf = (app: Application) =>
+    postings.find((p) => p.id === app.postingId)?.code ?? app.courseCode;
+
+  const [reassigning, setReassigning] = useState<Posting | null>(null);
+  const [professor, setProfessor] = useState("");
+  const [reopening, setReopening] = useState<Posting | null>(null);
+  const professors = [...new Set(postings.map((p) => p.professor))].sort();
+
+  const replacePosting = (next: Posting) =>
+    setPostings((list) => list.map((p) => (p.id === next.id ? next : p)));
+
+  const reassign = () => {
+    if (!reassigning) return;
+    const check = validateProfessorName(professor, reassigning.professor);
+    if (!check.ok) {
+      alert(check.msg);
+      return;
+    }
+    // the new owner can't also be listed as co-instructor or reviewer
+    replacePosting({
+      ...reassigning,
+      professor: professor.trim(),
+      staff: reassigning.staff.filter((s) => s.name !== professor.trim()),
+    });
+    notify(
+      "Posting Reassigned",
+      `${reassigning.code} now belongs to ${professor.trim()}`
+    );
+    setReassigning(null);
+  };
+
+  // deadline: undefined keeps the current one, null removes it
+  const reopen = (deadline: number | null | undefined) => {
+    if (!reopening) return;
+    try {
+      replacePosting(
+        reopenPosting(reopening, clock.now(), deadline, "coordinator")
+      );
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    }
+    setReopening(null);
+  };
+
+  const [proposal, setProposal] = useState<MatchResult | null>(null);
+  // application ids the coordinator took out of the proposal
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const runMatching = () => {
+    // every student's classes, as copied onto their applications
+    const classes = new Map(
+      applications.map((a) => [studentIdOf(a), a.classes])
+    );
+    setProposal(
+      proposeMatching(postings, applications, {
+        studentOf: studentIdOf,
+        classesOf: (student) => classes.get(student) ?? [],
+      })
+    );
+    setExcluded(new Set());
+  };
+
+  const toggleExcluded = (id: string) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const publish = () => {
+    if (!proposal) return;
+    const chosen = proposal.assignments.filter((a) => !excluded.has(a.app.id));
+    if (chosen.length === 0) {
+      alert("No assignments selected.");
+      return;
+    }
+    if (
+      !confirm(
+        `Send ${chosen.length} offer(s)? Students get ${DEFAULT_OFFER_DAYS} ` +
+          "days to respond."
+      )
+    ) {
+      return;
+    }
+    const at = clock.now();
+    const result = publishMatching(
+      chosen,
+      applications,
+      postings,
+      at + DEFAULT_OFFER_DAYS * DAY,
+      (app, posting) =>
+        renderTemplate(
+          defaultTemplate(posting, "offered", templates)?.body ??
+            DEFAULT_NEXT_STEP.offered,
+          templateVars(app, posting, bookedSlot(interviewSlots, app.id))
+        ),
+      at,
+      user.name
+    );
+    const offered = new Map(result.offered.map((a) => [a.id, a]));
+    setApplications((list) => list.map((a) => offered.get(a.id) ?? a));
+    if (result.offered.length > 0) {
+      notify("Matching Published", `${result.offered.length} offer(s) sent`);
+    }
+    if (result.skipped.length > 0) {
+      alert(
+        `Skipped ${result.skipped.length} assignment(s):\n` +
+          result.skipped
+            .map(({ app, reason }) => `• ${app.course}: ${reason}`)
+            .join("\n")
+      );
+    }
+    setProposal(null);
+  };
+
+  return (
+    <div className="grid gap-6">
+      <section className="rounded-2xl border bg-white p-4 grid gap-3 text-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
+            Postings
+          </h2>
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={requireBlindReview}
+              onChange={(e) => setRequireBlindReview(e.target.checked)}
+            />
+            Require blind first-round review for every posting
+          </label>
+        </div>
+        <table className="w-full text-left">
+          <thead className="text-xs text-gray-500">
+            <tr>
+              <th className="py-1">Course</th>
+              <th>Professor</th>
+              <th>Availability</th>
+              <th>Applications</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {postings.map((p) => {
+              const count = applications.filter(
+                (a) => a.postingId === p.id
+              ).length;
+              return (
+                <tr key={p.id} className="border-t">
+                  <td className="py-1.5">
+                    <div className="font-medium">{p.code}</div>
+                    <div className="text-xs text-gray-500">{p.title}</div>
+                    {isBlind(p, requireBlindReview) && (
+                      <div className="text-xs text-gray-500">Blind review</div>
+                    )}
+                  </td>
+                  <td>{p.professor}</td>
+                  <td>{countdownLabel(p, now)}</td>
+                  <td>{count}</td>
+                  <td className="text-right whitespace-nowrap">
+                    <button
+                      className="border rounded-lg px-2 py-1 text-xs mr-1"
+                      style={{ borderColor: PRIMARY, color: PRIMARY }}
+                      onClick={() => {
+                        setReassigning(p);
+                        setProfessor("");
+                      }}
+                    >
+                      Reassign
+                    </button>
+                    <button
+                      className="border rounded-lg px-2 py-1 text-xs"
+                      style={{
+                        borderColor: PRIMARY,
+                        color: p.closed ? "#B91C1C" : PRIMARY,
+                      }}
+                      onClick={() =>
+                        p.closed
+                          ? setReopening(p)
+                          : replacePosting(
+                              closePosting(p, clock.now(), "coordinator")
+                            )
+                      }
+                    >
+                      {p.closed ? "Reopen" : "Close"}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="rounded-2xl border bg-white p-4 grid gap-3 text-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
+            All applications
+          </h2>
+          {staleCount > 0 && (
+            <button
+              className="rounded-lg border px-2 py-1 text-xs"
+              style={{ borderColor: "#F59E0B", background: "#FFFBEB" }}
+              onClick={() =>
+                setFilters((f) => ({ ...f, status: "all", staleOnly: true }))
+              }
+            >
+              {staleCount} unreviewed for more than {filters.staleDays} day(s)
+            </button>
+          )}
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="grid gap-1">
+            <span className="text-xs text-gray-600">Status</span>
+            <select
+              className="border rounded-lg px-2 py-1"
+              value={filters.status}
+              onChange={(e) =>
+                setFilters((f) => ({
+                  ...f,
+                  status: e.target.value as DashboardFilters["status"],
+                }))
+              }
+            >
+              <option value="all">All statuses</option>
+              {APPLICATION_STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="grid gap-1">
+            <span className="text-xs text-gray-600">Course</span>
+            <select
+              className="border rounded-lg px-2 py-1"
+              value={filters.postingId}
+              onChange={(e) =>
+                setFilters((f) => ({ ...f, postingId: e.target.value }))
+              }
+            >
+              <option value="">All courses</option>
+              {postings.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.code}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="grid gap-1">
+            <span className="text-xs text-gray-600">Overdue after (days)</span>
+            <input
+              type="number"
+              min={1}
+              className="border rounded-lg px-2 py-1 w-24"
+              value={filters.staleDays}
+              onChange={(e) => {
+                const days = Number(e.target.value);
+                if (Number.isInteger(days) && days > 0) {
+                  setFilters((f) => ({ ...f, staleDays: days }));
+                }
+              }}
+            />
+          </label>
+          <label className="inline-flex items-center gap-2 pb-1">
+            <input
+              type="checkbox"
+              checked={filters.staleOnly}
+              onChange={(e) =>
+                setFilters((f) => ({ ...f, staleOnly: e.target.checked }))
+              }
+            />
+            Overdue only
+          </label>
+          <button
+            className="text-xs underline pb-1"
+            style={{ color: PRIMARY }}
+            onClick={() => setFilters(DEFAULT_DASHBOARD_FILTERS)}
+          >
+            Reset filters
+          </button>
+        </div>
+        {shown.length === 0 ? (
+          <div className="text-gray-600">No applications match.</div>
+        ) : (
+          <div className="grid gap-1">
+            {shown.map((a) => (
+              <div
+                key={a.id}
+                className="flex flex-wrap items-center gap-2 rounded-lg border px-3 py-1.5"
+              >
+                <span className="font-medium w-16">
+                  {courseOf(a)}
+                </span>
+                <span>{applicantName(a)}</span>
+                <StatusChip status={a.status} />
+                {isStale(a, now, filters.staleDays) && (
+                  <span
+                    className="rounded-full px-2 py-0.5 text-xs"
+                    style={{ background: "#FEF3C7", color: "#92400E" }}
+                  >
+                    Overdue
+                  </span>
+                )}
+                <span className="ml-auto text-xs text-gray-500">
+                  Submitted {new Date(a.createdAt).toLocaleDateString()} (
+                  {formatDuration(Math.max(0, now - a.createdAt))} ago)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl border bg-white p-4 grid gap-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
+              Department matching
+            </h2>
+            <p className="text-sm text-gray-600">
+              Matches interview-stage applicants to free positions using the
+              students' course preferences and each professor's ranking
+              (waitlist first, then rubric score). Each student gets at most
+              one position and no course whose tutorials clash with their
+              timetable.
+            </p>
+          </div>
+          <button
+            className="border rounded-lg px-3 py-2 text-sm shrink-0"
+            style={{ borderColor: PRIMARY, color: PRIMARY }}
+            onClick={runMatching}
+          >
+            {proposal ? "Run again" : "Run matching"}
+          </button>
+        </div>
+        <div className="grid gap-1 text-sm">
+          {postings.map((p) => {
+            const c = capacity(p, applications);
+            const eligible = applications.filter(
+              (a) => a.postingId === p.id && canWaitlist(a)
+            ).length;
+            return (
+              <div key={p.id} className="flex flex-wrap gap-x-3 text-gray-700">
+                <span className="font-medium">{p.code}</span>
+                <span>{p.professor}</span>
+                <span>
+                  {c.remaining} of {c.positions} position(s) free
+                </span>
+                <span className="text-gray-500">
+                  {eligible} applicant(s) at the interview stage
+                </span>
               </div>
-              <p className="text-xs text-gray-500">
-                When you update the status, the student will see the new status
-                and next step in their "My Applications" tab.
-              </p>
+            );
+          })}
+        </div>
+      </section>
+
+      {proposal && (
+        <section className="rounded-2xl border bg-white p-4 grid gap-3 text-sm">
+          <div className="font-medium" style={{ color: PRIMARY }}>
+            Proposed assignments
+          </div>
+          {proposal.assignments.length === 0 ? (
+            <div className="text-gray-600">
+              Nobody can be matched right now (no free positions or no
+              interview-stage applicants).
+            </div>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-gray-500">
+                <tr>
+                  <th className="py-1">Include</th>
+                  <th>Course</th>
+                  <th>Applicant</th>
+                  <th>Student's choice</th>
+                  <th>Professor's rank</th>
+                  <th>Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposal.assignments.map((a) => (
+                  <tr key={a.app.id} className="border-t">
+                    <td className="py-1.5">
+                      <input
+                        type="checkbox"
+                        checked={!excluded.has(a.app.id)}
+                        onChange={() => toggleExcluded(a.app.id)}
+                        aria-label={`Include ${a.posting.code}`}
+                      />
+                    </td>
+                    <td>{a.posting.code}</td>
+                    <td>{applicantName(a.app)}</td>
+                    <td>#{a.preference}</td>
+                    <td>#{a.rank}</td>
+                    <td>{a.score === null ? "unscored" : a.score}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {proposal.unmatched.length > 0 && (
+            <div className="text-gray-600">
+              Not matched:{" "}
+              {proposal.unmatched
+                .map((a) => `${a.course} (#${a.id.slice(-5)})`)
+                .join(", ")}
+            </div>
+          )}
+          {proposal.conflicts.length > 0 && (
+            <div className="text-gray-600">
+              Left out for a timetable conflict:{" "}
+              {proposal.conflicts
+                .map((a) => `${a.course} (#${a.id.slice(-5)})`)
+                .join(", ")}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              className="border rounded-lg px-3 py-2 text-sm"
+              onClick={() => setProposal(null)}
+            >
+              Discard
+            </button>
+            <button
+              className="border rounded-lg px-3 py-2 text-sm text-white disabled:opacity-40"
+              style={{ background: PRIMARY, borderColor: PRIMARY }}
+              disabled={proposal.assignments.length === excluded.size}
+              onClick={publish}
+            >
+              Publish offers
+            </button>
+          </div>
+        </section>
+      )}
+
+      <section className="rounded-2xl border bg-white p-4 grid gap-2 text-sm">
+        <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
+          Access log
+        </h2>
+        {accessLog.length === 0 ? (
+          <div className="text-gray-600">No rejected attempts.</div>
+        ) : (
+          <ul className="grid gap-1">
+            {[...accessLog].reverse().map((e, i) => (
+              <li key={i} className="rounded-lg border px-3 py-1.5">
+                <div className="text-xs text-gray-500">
+                  {new Date(e.at).toLocaleString()} • {e.userName} (
+                  {ROLE_LABEL[e.role]}) tried to {e.action}
+                </div>
+                <div className="text-gray-700">{e.reason}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-2xl border bg-white p-4 grid gap-2 text-sm">
+        <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
+          Identity reveals
+        </h2>
+        <p className="text-xs text-gray-500">
+          Applicants revealed before the interview stage of a blind review.
+        </p>
+        {revealLog.length === 0 ? (
+          <div className="text-gray-600">No early reveals.</div>
+        ) : (
+          <ul className="grid gap-1">
+            {[...revealLog].reverse().map((r, i) => {
+              const app = applications.find((a) => a.id === r.applicationId);
+              return (
+                <li key={i} className="rounded-lg border px-3 py-1.5">
+                  <span className="text-xs text-gray-500">
+                    {new Date(r.at).toLocaleString()} •{" "}
+                  </span>
+                  {r.by} revealed{" "}
+                  {app ? applicantName(app) : `#${r.applicationId.slice(-5)}`}{" "}
+                  ({r.course})
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      {reassigning && (
+        <Dialog onClose={() => setReassigning(null)}>
+          <div className="w-full max-w-md text-sm grid gap-3">
+            <div className="text-lg font-semibold" style={{ color: PRIMARY }}>
+              Reassign {reassigning.code}
             </div>
+            <div className="text-gray-600">
+              Currently: {reassigning.professor}. Applications, scores and
+              the waitlist stay with the posting.
+            </div>
+            <input
+              className="border rounded-lg px-3 py-2"
+              placeholder="New professor"
+              list="coordinator-professors"
+              value={professor}
+              onChange={(e) => setProfessor(e.target.value)}
+            />
+            <datalist id="coordinator-professors">
+              {professors.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            <button
+              className="border rounded-xl px-4 py-2 text-sm text-white"
+              style={{ background: PRIMARY, borderColor: PRIMARY }}
+              onClick={reassign}
+            >
+              Reassign posting
+            </button>
           </div>
         </Dialog>
       )}
+
+      {reopening && (
+        <Dialog onClose={() => setReopening(null)}>
+          <ReopenPostingForm
+            posting={reopening}
+            now={clock.now()}
+            onReopen={reopen}
+          />
+        </Dialog>
+      )}
+    </div>
+  );
+}
+
+// ---------------- PDF Viewer ----------------
+// a fresh upload (before submitting) or a stored resume / transcript
+type ViewableDocument = File | StoredDocument;
+
+function PdfViewer({ doc }: { doc: ViewableDocument }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [missing, setMissing] = useState(false);
+  const [pages, setPages] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const found =
+        doc instanceof File ? doc : await documentStore.getBlob(doc.id);
+      if (cancelled) return;
+      if (!found) {
+        setMissing(true);
+        return;
+      }
+      // stored blobs may have lost their type; the built-in viewer needs it
+      const pdf = new Blob([found], { type: "application/pdf" });
+      const count = countPdfPages(new Uint8Array(await pdf.arrayBuffer()));
+      if (cancelled) return;
+      setBlob(pdf);
+      setPages(count);
+    };
+    load().catch(() => !cancelled && setMissing(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [doc]);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  const btn =
+    "border rounded-lg px-2 py-1 text-xs inline-flex items-center gap-1 disabled:opacity-40";
+
+  return (
+    <div className="w-full grid gap-2">
+      <div className="font-medium pr-16 truncate" style={{ color: PRIMARY }}>
+        {doc.name}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          className={btn}
+          disabled={page <= 1}
+          onClick={() => setPage((p) => clampPage(p - 1, pages))}
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="h-3 w-3" />
+        </button>
+        <span>
+          Page {page}
+          {pages !== null && ` of ${pages}`}
+        </span>
+        <button
+          className={btn}
+          disabled={pages !== null && page >= pages}
+          onClick={() => setPage((p) => clampPage(p + 1, pages))}
+          aria-label="Next page"
+        >
+          <ChevronRight className="h-3 w-3" />
+        </button>
+        <span className="ml-2 inline-flex items-center gap-1">
+          <button
+            className={btn}
+            disabled={zoom === ZOOM_LEVELS[0]}
+            onClick={() => setZoom((z) => stepZoom(z, -1))}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-3 w-3" />
+          </button>
+          <span className="w-10 text-center">{zoom}%</span>
+          <button
+            className={btn}
+            disabled={zoom === ZOOM_LEVELS.at(-1)}
+            onClick={() => setZoom((z) => stepZoom(z, 1))}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-3 w-3" />
+          </button>
+        </span>
+        <button
+          className={`${btn} ml-auto`}
+          style={{ borderColor: PRIMARY, color: PRIMARY }}
+          disabled={!blob}
+          onClick={() => blob && downloadBlob(doc.name, blob)}
+        >
+          <Download className="h-3 w-3" />
+          Download
+        </button>
+      </div>
+      {missing ? (
+        <div className="rounded-lg border bg-slate-50 p-6 text-center text-sm text-gray-600">
+          This file is no longer stored in this browser.
+        </div>
+      ) : url ? (
+        // remounted on every change: the viewer only reads the fragment
+        // when it loads
+        <iframe
+          key={`${page}-${zoom}`}
+          src={viewerSrc(url, page, zoom)}
+          title={doc.name}
+          className="w-full h-[70vh] rounded-lg border"
+        />
+      ) : (
+        <div className="p-6 text-center text-sm text-gray-500">Loading…</div>
+      )}
     </div>
   );
 }
 
+/** Small "View" link that opens a document in the viewer. */
+function ViewDocButton({
+  doc,
+  onView,
+}: {
+  doc: ViewableDocument | null;
+  onView: (doc: ViewableDocument) => void;
+}) {
+  if (!doc) return null;
+  return (
+    <button
+      className="ml-2 inline-flex items-center gap-1 text-xs underline"
+      style={{ color: PRIMARY }}
+      onClick={() => onView(doc)}
+    >
+      <FileText className="h-3 w-3" />
+      View
+    </button>
+  );
+}
+
 // ---------------- Primitives ----------------
+// open dialogs, newest last; Escape only closes the one on top (e.g. the
+// PDF viewer over an application)
+const openDialogs: symbol[] = [];
+
 function Dialog({
   children,
   onClose,
@@ -1440,13 +6517,21 @@ function Dialog({
   children: React.ReactNode;
   onClose?: () => void;
 }) {
+  const [id] = useState(() => Symbol("dialog"));
+  useEffect(() => {
+    openDialogs.push(id);
+    return () => {
+      openDialogs.splice(openDialogs.indexOf(id), 1);
+    };
+  }, [id]);
+
   useEffect(() => {
     const h = (e: KeyboardEvent) => {
-      if (e.key === "Escape") onClose?.();
+      if (e.key === "Escape" && openDialogs.at(-1) === id) onClose?.();
     };
     window.addEventListener("keydown", h);
     return () => window.removeEventListener("keydown", h);
-  }, [onClose]);
+  }, [id, onClose]);
 
   return (
     <div className="fixed inset-0 z-20 grid place-items-center p-4">
@@ -1460,7 +6545,7 @@ function Dialog({
       <motion.div
         initial={{ opacity: 0, y: 8 }}
         animate={{ opacity: 1, y: 0 }}
-        className="relative z-10 w-full max-w-2xl rounded-2xl bg-white p-4 shadow-2xl border"
+        className="relative z-10 w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl bg-white p-4 shadow-2xl border"
         style={{ borderColor: PRIMARY }}
       >
         <button
@@ -1476,15 +6561,37 @@ function Dialog({
   );
 }
 
+// ---------------- Download Helpers ----------------
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // let the download start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function downloadCalendar(
+  filename: string,
+  name: string,
+  events: IcsWeeklyEvent[]
+) {
+  const ics = buildWeeklyCalendar(
+    `${name} (${CURRENT_TERM.name})`,
+    events,
+    CURRENT_TERM
+  );
+  downloadBlob(filename, new Blob([ics], { type: "text/calendar" }));
+}
+
 // ---------------- Id Helper ----------------
 function cryptoId() {
-  if (
-    typeof window !== "undefined" &&
-    (window as any).crypto &&
-    (window as any).crypto.getRandomValues
-  ) {
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
     const a = new Uint32Array(2);
-    (window as any).crypto.getRandomValues(a);
+    crypto.getRandomValues(a);
     return Array.from(a)
       .map((x) => x.toString(16).padStart(8, "0"))
       .join("");
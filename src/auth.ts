@@ -0,0 +1,137 @@
+/**
+ * Mock identity provider and authorization rules (no backend yet).
+ * - Students and the coordinator are fixed demo users; everyone on a
+ *   posting's staff (owner, co-instructors, reviewers) can sign in
+ * - Each role only gets its own area of the portal
+ * - Teaching staff work on the postings they're on, as far as their staff
+ *   role allows (see PERMISSIONS); the coordinator may act on every posting
+ * Denied attempts are rejected with AuthorizationError and kept in the
+ * access log the coordinator sees.
+ */
+import { MOCK_USERS } from "./mockData";
+import type { Posting, StaffRole } from "./model";
+
+export type Role = "student" | "professor" | "coordinator";
+
+export type User = {
+  id: string;
+  name: string;
+  role: Role;
+};
+
+/** One rejected attempt. */
+export type AccessDenial = {
+  at: number;
+  userId: string;
+  userName: string;
+  role: Role;
+  action: string;
+  reason: string;
+};
+
+// oldest entries are dropped beyond this
+export const ACCESS_LOG_LIMIT = 200;
+
+/**
+ * - view: see the posting's applicants
+ * - review: score and comment
+ * - decide: status changes, offers, waitlist, interviews, default templates
+ * - manage: edit, close and reopen the posting
+ * - own: delete the posting and change its staff
+ */
+export type Permission = "view" | "review" | "decide" | "manage" | "own";
+
+export const PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: ["view", "review", "decide", "manage", "own"],
+  "co-instructor": ["view", "review", "decide", "manage"],
+  reviewer: ["view", "review"],
+};
+
+type StaffedPosting = Pick<Posting, "professor" | "staff">;
+
+export class AuthorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthorizationError";
+  }
+}
+
+export const professorUser = (name: string): User => ({
+  id: `prof:${name}`,
+  name,
+  role: "professor",
+});
+
+/** Everyone who can sign in right now. */
+export function directory(postings: Posting[]): User[] {
+  const names = postings.flatMap((p) => [
+    p.professor,
+    ...p.staff.map((s) => s.name),
+  ]);
+  const professors = [...new Set(names)]
+    .filter(Boolean)
+    .sort()
+    .map(professorUser);
+  return [...MOCK_USERS, ...professors];
+}
+
+export function findUser(postings: Posting[], id: string) {
+  return directory(postings).find((u) => u.id === id) ?? null;
+}
+
+/** `name`'s role on the posting, null if they're not on its staff. */
+export function staffRole(
+  posting: StaffedPosting,
+  name: string
+): StaffRole | null {
+  if (posting.professor === name) return "owner";
+  return posting.staff.find((s) => s.name === name)?.role ?? null;
+}
+
+export function can(
+  user: User,
+  posting: StaffedPosting,
+  permission: Permission
+): boolean {
+  if (user.role === "coordinator") return true;
+  if (user.role !== "professor") return false;
+  const role = staffRole(posting, user.name);
+  return !!role && PERMISSIONS[role].includes(permission);
+}
+
+/** Throws AuthorizationError unless `user` may `action` on `posting`. */
+export function authorizePosting(
+  user: User,
+  posting: StaffedPosting & Pick<Posting, "code">,
+  action: string,
+  permission: Permission
+) {
+  if (!can(user, posting, permission)) {
+    const course = posting.code || "a posting";
+    const role = staffRole(posting, user.name);
+    throw new AuthorizationError(
+      `${user.name} is not allowed to ${action} for ${course} ` +
+        (role
+          ? `(${role}s can't).`
+          : `(owned by ${posting.professor || "nobody"}).`)
+    );
+  }
+}
+
+export function logDenial(
+  log: AccessDenial[],
+  user: User,
+  action: string,
+  reason: string,
+  now: number
+): AccessDenial[] {
+  const entry: AccessDenial = {
+    at: now,
+    userId: user.id,
+    userName: user.name,
+    role: user.role,
+    action,
+    reason,
+  };
+  return [...log, entry].slice(-ACCESS_LOG_LIMIT);
+}
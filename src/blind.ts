@@ -0,0 +1,107 @@
+/**
+ * Blind first-round review (bias-reduced screening).
+ * - A professor turns it on per posting, or the coordinator requires it
+ *   for every posting
+ * - While it's on, the posting's staff don't see an applicant's name,
+ *   student number or email, nor the names of the files they uploaded,
+ *   nor the name in next-step messages already sent (see redactHistory)
+ * - Identities show once an application gets past "reviewed" (interview
+ *   or later); revealing one earlier is possible but logged
+ * - An early reveal is kept on the application itself; the log is only
+ *   the coordinator's audit trail and is never cut short
+ */
+import type { StoredDocument } from "./documentStore";
+import type {
+  Application,
+  ApplicationStatus,
+  Posting,
+  StatusChange,
+} from "./model";
+
+/** One early reveal of an applicant's identity (audit log entry). */
+export type IdentityReveal = {
+  at: number;
+  applicationId: string;
+  postingId: string;
+  course: string;
+  /** staff member who revealed it */
+  by: string;
+};
+
+// statuses only reached after the first round
+const PAST_FIRST_ROUND: ApplicationStatus[] = [
+  "interview",
+  "offered",
+  "offer-accepted",
+  "offer-declined",
+  "expired",
+];
+
+export const isBlind = (
+  posting: Pick<Posting, "blindReview">,
+  departmentRequired: boolean
+) => departmentRequired || posting.blindReview;
+
+/** The application reached the interview stage at some point. */
+export const pastFirstRound = (app: Application) =>
+  app.history.some((h) => PAST_FIRST_ROUND.includes(h.to));
+
+export function identityHidden(
+  app: Application,
+  posting: Pick<Posting, "blindReview">,
+  departmentRequired: boolean
+) {
+  return (
+    isBlind(posting, departmentRequired) &&
+    !pastFirstRound(app) &&
+    app.revealed === null
+  );
+}
+
+/** Marks the application's identity as revealed by `by`. */
+export const markRevealed = (
+  app: Application,
+  by: string,
+  now: number
+): Application => ({ ...app, revealed: { at: now, by } });
+
+export function logReveal(
+  log: IdentityReveal[],
+  app: Application,
+  posting: Pick<Posting, "code">,
+  by: string,
+  now: number
+): IdentityReveal[] {
+  const entry: IdentityReveal = {
+    at: now,
+    applicationId: app.id,
+    postingId: app.postingId,
+    course: posting.code,
+    by,
+  };
+  return [...log, entry];
+}
+
+/**
+ * Timeline as hidden staff may see it. Messages were rendered for the
+ * student ("Hi {studentName}"), so their name, number and email are
+ * swapped for `label`.
+ */
+export function redactHistory(
+  app: Application,
+  label: string
+): StatusChange[] {
+  const { name = "", studentNumber = "", email = "" } = app.student ?? {};
+  const secrets = [email, studentNumber, name].filter((s) => s.trim());
+  if (secrets.length === 0) return app.history;
+  return app.history.map((h) => ({
+    ...h,
+    message: secrets.reduce((m, s) => m.split(s).join(label), h.message),
+  }));
+}
+
+/** Metadata without the uploaded file name (often the student's name). */
+export const redactDocument = (
+  d: StoredDocument,
+  label: string
+): StoredDocument => ({ ...d, name: `${label}.pdf` });
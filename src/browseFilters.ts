@@ -0,0 +1,83 @@
+/**
+ * Filter / sort state for the student postings browser.
+ */
+import { postingState } from "./deadlines";
+import type { Application, Posting, TimeSlot, Weekday } from "./model";
+import { conflictFreeSlots, scheduleCompatibility } from "./schedule";
+
+export type BrowseSort = "deadline" | "code" | "compatibility";
+
+export type BrowseFilters = {
+  /** a posting state (see deadlines.ts), or "all" */
+  availability: "all" | "open" | "upcoming" | "closed";
+  /** only postings with at least one tutorial slot that fits the timetable */
+  conflictFreeOnly: boolean;
+  /** keep postings with a tutorial on any of these days (empty = any day) */
+  tutorialDays: Weekday[];
+  /** "" = any professor */
+  professor: string;
+  notYetApplied: boolean;
+  sort: BrowseSort;
+};
+
+export const DEFAULT_BROWSE_FILTERS: BrowseFilters = {
+  availability: "all",
+  conflictFreeOnly: false,
+  tutorialDays: [],
+  professor: "",
+  notYetApplied: false,
+  sort: "deadline",
+};
+
+/** Number of filters that differ from the defaults (sort not counted). */
+export function activeFilterCount(f: BrowseFilters) {
+  return [
+    f.availability !== "all",
+    f.conflictFreeOnly,
+    f.tutorialDays.length > 0,
+    f.professor !== "",
+    f.notYetApplied,
+  ].filter(Boolean).length;
+}
+
+export function applyBrowseFilters(
+  postings: Posting[],
+  f: BrowseFilters,
+  ctx: { now: number; applications: Application[]; classes: TimeSlot[] }
+): Posting[] {
+  const { now, applications, classes } = ctx;
+  const applied = new Set(
+    applications
+      .filter((a) => a.status !== "withdrawn")
+      .map((a) => a.postingId)
+  );
+  const out = postings.filter((p) => {
+    if (f.availability !== "all" && postingState(p, now) !== f.availability) {
+      return false;
+    }
+    if (f.conflictFreeOnly && conflictFreeSlots(p, classes).length === 0) {
+      return false;
+    }
+    if (
+      f.tutorialDays.length > 0 &&
+      !p.tutorialSlots.some((t) => f.tutorialDays.includes(t.day))
+    ) {
+      return false;
+    }
+    if (f.professor && p.professor !== f.professor) return false;
+    if (f.notYetApplied && applied.has(p.id)) return false;
+    return true;
+  });
+
+  const byCode = (a: Posting, b: Posting) => a.code.localeCompare(b.code);
+  const sorters: Record<BrowseSort, (a: Posting, b: Posting) => number> = {
+    // soonest deadline first, no deadline last
+    deadline: (a, b) =>
+      (a.deadline ?? Infinity) - (b.deadline ?? Infinity) || byCode(a, b),
+    code: byCode,
+    compatibility: (a, b) =>
+      scheduleCompatibility(b, classes) - scheduleCompatibility(a, classes) ||
+      byCode(a, b),
+  };
+  return [...out].sort(sorters[f.sort]);
+}
@@ -0,0 +1,88 @@
+/**
+ * Position capacity and the per-posting waitlist.
+ * - A posting has `positions` seats; accepted offers fill them and offers
+ *   still waiting for an answer hold them
+ * - Professors can't send more offers than there are free seats
+ * - Waitlisted applicants (ranked, best first) get an offer from the system
+ *   as soon as a seat is free again (declined, expired or withdrawn)
+ */
+import type { Application, Posting } from "./model";
+import { sendOffer } from "./offers";
+
+export type Capacity = {
+  positions: number;
+  filled: number;
+  pending: number;
+  remaining: number;
+};
+
+export function capacity(posting: Posting, apps: Application[]): Capacity {
+  const mine = apps.filter((a) => a.postingId === posting.id);
+  const filled = mine.filter((a) => a.status === "offer-accepted").length;
+  const pending = mine.filter((a) => a.status === "offered").length;
+  return {
+    positions: posting.positions,
+    filled,
+    pending,
+    remaining: Math.max(0, posting.positions - filled - pending),
+  };
+}
+
+/** Why another offer can't go out, or null if a seat is free. */
+export function offerBlockedReason(posting: Posting, apps: Application[]) {
+  const c = capacity(posting, apps);
+  if (c.remaining > 0) return null;
+  return (
+    `All ${c.positions} position(s) for ${posting.code} are filled or ` +
+    "have an offer pending. Add the applicant to the waitlist instead."
+  );
+}
+
+/** Only applicants at the interview stage can be offered, so wait there. */
+export const canWaitlist = (a: Application) => a.status === "interview";
+
+export type WaitlistResult = {
+  /** postings whose waitlist changed */
+  postings: Posting[];
+  /** applications that just got an offer */
+  offered: Application[];
+};
+
+/**
+ * Offers free seats to the top of each waitlist and drops entries that
+ * can't be offered anymore (rejected, withdrawn, offered by hand, ...).
+ * Returns null when there's nothing to do.
+ */
+export function fillFromWaitlists(
+  postings: Posting[],
+  apps: Application[],
+  respondBy: number,
+  message: (app: Application, posting: Posting) => string,
+  now: number
+): WaitlistResult | null {
+  const byId = new Map(apps.map((a) => [a.id, a]));
+  const result: WaitlistResult = { postings: [], offered: [] };
+  for (const posting of postings) {
+    if (posting.waitlist.length === 0) continue;
+    let remaining = capacity(posting, apps).remaining;
+    const waitlist: string[] = [];
+    for (const id of posting.waitlist) {
+      const app = byId.get(id);
+      if (!app || !canWaitlist(app)) continue;
+      if (remaining > 0) {
+        result.offered.push(
+          sendOffer(app, respondBy, message(app, posting), now, "system")
+        );
+        remaining--;
+      } else {
+        waitlist.push(id);
+      }
+    }
+    if (waitlist.length !== posting.waitlist.length) {
+      result.postings.push({ ...posting, waitlist });
+    }
+  }
+  return result.postings.length > 0 || result.offered.length > 0
+    ? result
+    : null;
+}
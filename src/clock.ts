@@ -0,0 +1,53 @@
+/**
+ * Injectable time source.
+ * Components read "now" through a Clock instead of Date.now() so deadline
+ * behaviour can be driven by a fake clock (tests, demos).
+ */
+import { useEffect, useState } from "react";
+
+export type Clock = {
+  now(): number;
+  /** Calls `cb` whenever "now" should be re-read; returns an unsubscribe. */
+  subscribe(cb: () => void): () => void;
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  subscribe(cb) {
+    const t = setInterval(cb, 30_000);
+    return () => clearInterval(t);
+  },
+};
+
+export type FakeClock = Clock & {
+  set(t: number): void;
+  advance(ms: number): void;
+};
+
+export function createFakeClock(start: number): FakeClock {
+  let t = start;
+  const listeners = new Set<() => void>();
+  const emit = () => listeners.forEach((cb) => cb());
+  return {
+    now: () => t,
+    subscribe(cb) {
+      listeners.add(cb);
+      return () => listeners.delete(cb);
+    },
+    set(next) {
+      t = next;
+      emit();
+    },
+    advance(ms) {
+      t += ms;
+      emit();
+    },
+  };
+}
+
+/** Current time from `clock`, re-rendering whenever the clock ticks. */
+export function useNow(clock: Clock) {
+  const [now, setNow] = useState(() => clock.now());
+  useEffect(() => clock.subscribe(() => setNow(clock.now())), [clock]);
+  return now;
+}
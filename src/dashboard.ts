@@ -0,0 +1,55 @@
+/**
+ * Filter state for the coordinator's department-wide application list.
+ */
+import { DAY } from "./deadlines";
+import type { Application, ApplicationStatus } from "./model";
+
+export type DashboardFilters = {
+  status: ApplicationStatus | "all";
+  /** "" = any posting */
+  postingId: string;
+  /** an application still "submitted" after this many days is overdue */
+  staleDays: number;
+  staleOnly: boolean;
+};
+
+export const DEFAULT_DASHBOARD_FILTERS: DashboardFilters = {
+  status: "all",
+  postingId: "",
+  staleDays: 7,
+  staleOnly: false,
+};
+
+/** Nobody has looked at it for more than `days` days. */
+export function isStale(app: Application, now: number, days: number) {
+  return app.status === "submitted" && now - app.createdAt > days * DAY;
+}
+
+/** Matching applications, overdue ones first, then newest first. */
+export function applyDashboardFilters(
+  apps: Application[],
+  f: DashboardFilters,
+  now: number
+): Application[] {
+  const stale = (a: Application) => isStale(a, now, f.staleDays);
+  return apps
+    .filter(
+      (a) =>
+        (f.status === "all" || a.status === f.status) &&
+        (!f.postingId || a.postingId === f.postingId) &&
+        (!f.staleOnly || stale(a))
+    )
+    .sort(
+      (a, b) => Number(stale(b)) - Number(stale(a)) || b.createdAt - a.createdAt
+    );
+}
+
+export function validateProfessorName(name: string, current: string) {
+  if (!name.trim()) {
+    return { ok: false, msg: "Enter the professor's name." };
+  }
+  if (name.trim() === current) {
+    return { ok: false, msg: `This posting already belongs to ${current}.` };
+  }
+  return { ok: true };
+}
@@ -0,0 +1,113 @@
+/**
+ * Posting open / deadline handling.
+ * - A posting accepts applications between opensAt and deadline (if any)
+ *   unless a professor (or the coordinator) closed it by hand
+ * - Once the deadline passes the posting is closed by the system
+ * - Every close / reopen is kept in availabilityHistory
+ * All functions take `now` explicitly; callers get it from a Clock.
+ */
+import type { AvailabilityChange, Posting } from "./model";
+
+export type PostingState = "upcoming" | "open" | "closed";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+export function postingState(p: Posting, now: number): PostingState {
+  if (p.closed) return "closed";
+  if (p.deadline !== null && now >= p.deadline) return "closed";
+  if (now < p.opensAt) return "upcoming";
+  return "open";
+}
+
+export function isAcceptingApplications(p: Posting, now: number) {
+  return postingState(p, now) === "open";
+}
+
+function withChange(p: Posting, change: AvailabilityChange): Posting {
+  return { ...p, availabilityHistory: [...p.availabilityHistory, change] };
+}
+
+/**
+ * Closes every open posting whose deadline has passed. Returns the same
+ * array when nothing changed so it can be used inside a state updater.
+ */
+export function applyDeadlines(postings: Posting[], now: number): Posting[] {
+  let changed = false;
+  const next = postings.map((p) => {
+    if (p.closed || p.deadline === null || now < p.deadline) return p;
+    changed = true;
+    return withChange(
+      { ...p, closed: true },
+      { action: "closed", by: "system", at: now, deadline: p.deadline }
+    );
+  });
+  return changed ? next : postings;
+}
+
+export function closePosting(
+  p: Posting,
+  now: number,
+  by: AvailabilityChange["by"] = "professor"
+): Posting {
+  if (p.closed) return p;
+  return withChange(
+    { ...p, closed: true },
+    { action: "closed", by, at: now, deadline: p.deadline }
+  );
+}
+
+/**
+ * Reopens a posting. `deadline` undefined keeps the current one, null
+ * removes it. Reopening with a deadline that already passed is an error,
+ * the posting would just close itself again.
+ */
+export function reopenPosting(
+  p: Posting,
+  now: number,
+  deadline?: number | null,
+  by: AvailabilityChange["by"] = "professor"
+): Posting {
+  const nextDeadline = deadline === undefined ? p.deadline : deadline;
+  if (nextDeadline !== null && nextDeadline <= now) {
+    throw new Error("Pick a new deadline in the future to reopen this posting.");
+  }
+  return withChange(
+    { ...p, closed: false, deadline: nextDeadline },
+    { action: "reopened", by, at: now, deadline: nextDeadline }
+  );
+}
+
+function plural(n: number, unit: string) {
+  return `${n} ${unit}${n === 1 ? "" : "s"}`;
+}
+
+/** "3 days", "5 hours", "12 minutes" – rounded down, at least 1 minute. */
+export function formatDuration(ms: number) {
+  if (ms >= DAY) return plural(Math.floor(ms / DAY), "day");
+  if (ms >= HOUR) return plural(Math.floor(ms / HOUR), "hour");
+  return plural(Math.max(1, Math.floor(ms / MINUTE)), "minute");
+}
+
+/** Short label for posting cards, e.g. "Closes in 3 days". */
+export function countdownLabel(p: Posting, now: number) {
+  const state = postingState(p, now);
+  if (state === "upcoming") return `Opens in ${formatDuration(p.opensAt - now)}`;
+  if (state === "closed") return "Applications closed";
+  if (p.deadline === null) return "No deadline";
+  return `Closes in ${formatDuration(p.deadline - now)}`;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export function toLocalInput(ms: number | null) {
+  if (ms === null) return "";
+  const d = new Date(ms - new Date(ms).getTimezoneOffset() * MINUTE);
+  return d.toISOString().slice(0, 16);
+}
+
+export function fromLocalInput(v: string): number | null {
+  if (!v) return null;
+  const t = new Date(v).getTime();
+  return Number.isNaN(t) ? null : t;
+}
@@ -0,0 +1,127 @@
+/**
+ * Document store for uploaded resumes / transcripts.
+ * - File blobs live in IndexedDB (localStorage can't hold binary data)
+ * - Everything else (applications, saved defaults) only keeps the
+ *   JSON-friendly metadata below and looks the blob up by id
+ */
+
+export type StoredDocument = {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  uploadedAt: number;
+};
+
+type DocumentRecord = StoredDocument & { blob: Blob };
+
+const DB_NAME = "ta-portal-documents";
+const DB_VERSION = 1;
+const STORE = "documents";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) {
+          req.result.createObjectStore(STORE, { keyPath: "id" });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // allow a retry on the next call if opening failed
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  op: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = op(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function newDocumentId() {
+  const a = new Uint32Array(2);
+  crypto.getRandomValues(a);
+  return "doc_" + Array.from(a, (x) => x.toString(16).padStart(8, "0")).join("");
+}
+
+export function isStoredDocument(v: unknown): v is StoredDocument {
+  return (
+    !!v &&
+    typeof v === "object" &&
+    typeof (v as StoredDocument).id === "string" &&
+    typeof (v as StoredDocument).name === "string"
+  );
+}
+
+export const documentStore = {
+  /** Saves the file blob and returns its metadata (what callers should keep). */
+  async put(file: File, now: number): Promise<StoredDocument> {
+    const meta: StoredDocument = {
+      id: newDocumentId(),
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      uploadedAt: now,
+    };
+    await run("readwrite", (s) => s.put({ ...meta, blob: file }));
+    return meta;
+  },
+
+  async getBlob(id: string): Promise<Blob | null> {
+    const rec = await run<DocumentRecord | undefined>("readonly", (s) =>
+      s.get(id)
+    );
+    return rec?.blob ?? null;
+  },
+
+  async remove(id: string): Promise<void> {
+    await run("readwrite", (s) => s.delete(id));
+  },
+
+  async clear(): Promise<void> {
+    await run("readwrite", (s) => s.clear());
+  },
+
+  /** Deletes blobs that no application / saved default points at anymore. */
+  async prune(referencedIds: Set<string>): Promise<void> {
+    const keys = await run("readonly", (s) => s.getAllKeys());
+    await Promise.all(
+      keys
+        .map(String)
+        .filter((id) => !referencedIds.has(id))
+        .map((id) => documentStore.remove(id))
+    );
+  },
+};
+
+/**
+ * Turns a fresh upload into a stored document; already stored documents
+ * (e.g. a saved default) are passed through unchanged.
+ */
+export async function persistUpload(
+  doc: File | StoredDocument | null,
+  now: number
+): Promise<StoredDocument | null> {
+  if (!doc) return null;
+  if (doc instanceof File) return documentStore.put(doc, now);
+  return doc;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
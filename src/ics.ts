@@ -0,0 +1,280 @@
+/**
+ * Minimal iCalendar (RFC 5545) support.
+ * - Import reads VEVENTs with a weekly RRULE (what Mosaic / most calendar
+ *   apps export for a class) and turns every BYDAY into a TimetableEntry
+ * - Export writes weekly recurring events bounded by the term dates
+ */
+import { formatMeetings } from "./time";
+import type { Posting, Term, TimeSlot, TimetableEntry, Weekday } from "./model";
+
+const ICS_DAYS: Record<string, Weekday> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+const JS_DAYS: Weekday[] = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_CODES = Object.fromEntries(
+  Object.entries(ICS_DAYS).map(([code, day]) => [day, code])
+) as Record<Weekday, string>;
+
+type Prop = { name: string; params: Record<string, string>; value: string };
+
+/** Undo line folding: a CRLF followed by a space or tab continues the line. */
+function unfold(text: string) {
+  return text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+}
+
+function parseProp(line: string): Prop | null {
+  const colon = line.indexOf(":");
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const [k, v = ""] = p.split("=");
+    params[k.toUpperCase()] = v;
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(v: string) {
+  return v
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Wall-clock day and time of a DTSTART / DTEND value.
+ * - "...Z" is UTC and converted to the browser's local time
+ * - floating or TZID times are taken as written (the timetable is local)
+ * - all-day DATE values can't be a class and return null
+ */
+function parseDateTime(
+  value: string
+): { day: Weekday; time: string; ms: number } | null {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z)?$/.exec(value);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, , utc] = m;
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi))
+    : new Date(+y, +mo - 1, +d, +h, +mi);
+  return {
+    day: JS_DAYS[date.getDay()],
+    time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+    ms: date.getTime(),
+  };
+}
+
+/** ISO-8601 duration as used by DURATION, e.g. PT1H50M. */
+function parseDuration(value: string): number | null {
+  const m = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value);
+  if (!m) return null;
+  const [, d = "0", h = "0", mi = "0", s = "0"] = m;
+  return ((+d * 24 + +h) * 60 + +mi) * 60_000 + +s * 1000;
+}
+
+export type IcsImportResult = {
+  entries: TimetableEntry[];
+  /** events we couldn't use (one-off, all-day, non-weekly …) */
+  skipped: number;
+};
+
+export function parseIcsTimetable(
+  text: string,
+  newId: () => string
+): IcsImportResult {
+  const entries: TimetableEntry[] = [];
+  let skipped = 0;
+  let event: Prop[] | null = null;
+
+  for (const line of unfold(text)) {
+    if (line === "BEGIN:VEVENT") {
+      event = [];
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (event) {
+        const found = eventEntries(event, newId);
+        if (found.length === 0) skipped++;
+        entries.push(...found);
+      }
+      event = null;
+      continue;
+    }
+    const prop = event && parseProp(line);
+    if (event && prop) event.push(prop);
+  }
+
+  // calendar apps often export one VEVENT per day for the same class
+  const seen = new Set<string>();
+  const unique = entries.filter((e) => {
+    const key = `${e.day}|${e.start}|${e.end}|${e.title}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { entries: unique, skipped };
+}
+
+function eventEntries(props: Prop[], newId: () => string): TimetableEntry[] {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const dtstart = get("DTSTART");
+  const start = dtstart && parseDateTime(dtstart.value);
+  if (!start) return [];
+
+  const rrule = get("RRULE")?.value ?? "";
+  const rule = Object.fromEntries(
+    rrule.split(";").map((part) => part.split("=") as [string, string])
+  );
+  if (rule.FREQ !== "WEEKLY") return [];
+
+  let endTime: string | null = null;
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  if (dtend) {
+    endTime = parseDateTime(dtend.value)?.time ?? null;
+  } else if (duration) {
+    const ms = parseDuration(duration.value);
+    if (ms !== null) {
+      const end = new Date(start.ms + ms);
+      endTime = `${pad(end.getHours())}:${pad(end.getMinutes())}`;
+    }
+  }
+  if (!endTime || endTime <= start.time) return [];
+  const end = endTime;
+
+  const days = rule.BYDAY
+    ? rule.BYDAY.split(",")
+        // BYDAY may carry an ordinal (e.g. 1MO) – irrelevant for weekly rules
+        .map((d) => ICS_DAYS[d.replace(/^[+-]?\d+/, "")])
+        .filter((d): d is Weekday => !!d)
+    : [start.day];
+
+  const title = unescapeText(get("SUMMARY")?.value ?? "") || "Class";
+  const location = unescapeText(get("LOCATION")?.value ?? "");
+  return days.map((day) => ({
+    id: newId(),
+    day,
+    start: start.time,
+    end,
+    title,
+    ...(location ? { location } : {}),
+  }));
+}
+
+// ---------------- Export ----------------
+export type IcsWeeklyEvent = TimeSlot & {
+  uid: string;
+  summary: string;
+  location?: string;
+  description?: string;
+};
+
+function escapeText(v: string) {
+  return v
+    .replace(/\\/g, "\\\\")
+    .replace(/([,;])/g, "\\$1")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines longer than 75 octets (approximated by characters). */
+function fold(line: string) {
+  const out: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    out.push(rest.slice(0, 75));
+    rest = " " + rest.slice(75);
+  }
+  out.push(rest);
+  return out.join("\r\n");
+}
+
+const compactDate = (d: Date) =>
+  `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+
+function utcStamp(ms: number) {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").slice(0, 15) + "Z";
+}
+
+/** "2025-01-06" as a local date (Date.parse would read it as UTC). */
+function localDate(isoDay: string) {
+  const [y, m, d] = isoDay.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/** First `day` on or after the term start. */
+function firstOccurrence(term: Term, day: Weekday) {
+  const d = localDate(term.start);
+  while (JS_DAYS[d.getDay()] !== day) d.setDate(d.getDate() + 1);
+  return d;
+}
+
+/**
+ * A VCALENDAR with one weekly event per entry, repeating from the first
+ * matching day of the term until the term's last day. Times are floating
+ * (no TZID) so they stay at the same wall-clock time in the student's
+ * calendar app, like the timetable they were taken from.
+ */
+export function buildWeeklyCalendar(
+  name: string,
+  events: IcsWeeklyEvent[],
+  term: Term,
+  now: number = Date.now()
+) {
+  const until = `${compactDate(localDate(term.end))}T235959`;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//McMaster CAS//TA Application Portal//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const e of events) {
+    const date = compactDate(firstOccurrence(term, e.day));
+    const time = (hhmm: string) => hhmm.replace(":", "") + "00";
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.uid}@ta-portal.cas.mcmaster.ca`,
+      `DTSTAMP:${utcStamp(now)}`,
+      `DTSTART:${date}T${time(e.start)}`,
+      `DTEND:${date}T${time(e.end)}`,
+      `RRULE:FREQ=WEEKLY;BYDAY=${DAY_CODES[e.day]};UNTIL=${until}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      ...(e.location ? [`LOCATION:${escapeText(e.location)}`] : []),
+      ...(e.description ? [`DESCRIPTION:${escapeText(e.description)}`] : []),
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/**
+ * Weekly events for a posting: every TA tutorial slot and, optionally, the
+ * course lecture meetings (with their rooms).
+ */
+export function postingCalendarEvents(
+  posting: Posting,
+  opts: { includeLecture?: boolean } = {}
+): IcsWeeklyEvent[] {
+  const tutorials = posting.tutorialSlots.map((t, i) => ({
+    ...t,
+    uid: `${posting.id}-tutorial-${i}`,
+    summary: `${posting.code} TA tutorial`,
+    description: `${posting.title} – tutorial slot ${i + 1}`,
+  }));
+  if (!opts.includeLecture) return tutorials;
+  const lectures = posting.classMeetings.map((m, i) => ({
+    ...m,
+    uid: `${posting.id}-lecture-${i}`,
+    summary: `${posting.code} lecture`,
+    description: `${posting.title} (${formatMeetings(posting.classMeetings)})`,
+  }));
+  return [...lectures, ...tutorials];
+}
@@ -0,0 +1,219 @@
+/**
+ * Interview scheduling.
+ * - Professors publish one-off slots (a start time and a length) for a posting
+ * - A student whose application is in "interview" books one slot; booking
+ *   another one moves the booking
+ * - A slot holds at most one booking, a posting's slots never overlap and
+ *   a booking can't clash with the student's timetable or other interviews
+ * All functions take `now` explicitly; callers get it from a Clock.
+ */
+import {
+  WEEKDAYS,
+  type Application,
+  type InterviewSlot,
+  type TimeSlot,
+  type TimetableEntry,
+} from "./model";
+import { formatTime, slotsOverlap } from "./time";
+
+const MINUTE = 60_000;
+
+export class InterviewBookingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InterviewBookingError";
+  }
+}
+
+export const slotEnd = (s: InterviewSlot) => s.start + s.minutes * MINUTE;
+
+const overlaps = (a: InterviewSlot, b: InterviewSlot) =>
+  a.start < slotEnd(b) && b.start < slotEnd(a);
+
+/** The weekly slot an interview falls into, for timetable checks. */
+export function interviewWeeklySlot(s: InterviewSlot): TimeSlot {
+  const d = new Date(s.start);
+  const startMin = d.getHours() * 60 + d.getMinutes();
+  return {
+    // getDay() counts from Sunday
+    day: WEEKDAYS[(d.getDay() + 6) % 7],
+    start: formatTime(startMin),
+    end: formatTime(Math.min(startMin + s.minutes, 24 * 60 - 1)),
+  };
+}
+
+export function formatInterviewTime(s: InterviewSlot) {
+  const d = new Date(s.start);
+  const date = d.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const { start, end } = interviewWeeklySlot(s);
+  return `${date}, ${start}–${end}${s.location ? ` (${s.location})` : ""}`;
+}
+
+export const bookedSlot = (slots: InterviewSlot[], applicationId: string) =>
+  slots.find((s) => s.bookedBy === applicationId);
+
+export type NewSlotsInput = {
+  postingId: string;
+  start: number;
+  minutes: number;
+  count: number;
+  location: string;
+};
+
+/** Back-to-back slots starting at `start`. */
+export function planInterviewSlots(
+  input: NewSlotsInput,
+  newId: () => string
+): InterviewSlot[] {
+  return Array.from({ length: input.count }, (_, i) => ({
+    id: newId(),
+    postingId: input.postingId,
+    start: input.start + i * input.minutes * MINUTE,
+    minutes: input.minutes,
+    location: input.location.trim(),
+    bookedBy: null,
+  }));
+}
+
+/**
+ * - slots start in the future and end on the day they start
+ * - they don't overlap each other or the posting's existing slots
+ */
+export function validateInterviewSlots(
+  planned: InterviewSlot[],
+  existing: InterviewSlot[],
+  now: number
+): { ok: boolean; msg?: string } {
+  if (planned.length === 0) return { ok: false, msg: "Add at least one slot." };
+  for (const s of planned) {
+    if (!Number.isFinite(s.start)) {
+      return { ok: false, msg: "Pick a start date and time." };
+    }
+    if (!(s.minutes > 0)) {
+      return { ok: false, msg: "Slots need a length above 0 minutes." };
+    }
+    if (s.start <= now) {
+      return { ok: false, msg: "Interview slots must be in the future." };
+    }
+    if (new Date(slotEnd(s) - 1).getDate() !== new Date(s.start).getDate()) {
+      return { ok: false, msg: "Interview slots can't run past midnight." };
+    }
+  }
+  const taken = existing.filter((e) => e.postingId === planned[0].postingId);
+  for (const s of planned) {
+    const clash = taken.find((e) => e.id !== s.id && overlaps(s, e));
+    if (clash) {
+      return {
+        ok: false,
+        msg: `Overlaps the existing slot on ${formatInterviewTime(clash)}.`,
+      };
+    }
+  }
+  return { ok: true };
+}
+
+/**
+ * Books `slotId` for `app`, releasing any slot the application held before.
+ * Throws InterviewBookingError when the slot is gone, taken or in the past,
+ * or when it clashes with the student's timetable / other interviews.
+ */
+export function bookInterview(
+  slots: InterviewSlot[],
+  slotId: string,
+  app: Application,
+  student: { timetable: TimetableEntry[]; applications: Application[] },
+  now: number
+): InterviewSlot[] {
+  const slot = slots.find((s) => s.id === slotId);
+  if (!slot || slot.postingId !== app.postingId) {
+    throw new InterviewBookingError("This interview slot no longer exists.");
+  }
+  if (app.status !== "interview") {
+    throw new InterviewBookingError(
+      "Only applications at the interview stage can book an interview."
+    );
+  }
+  if (slot.start <= now) {
+    throw new InterviewBookingError("This interview slot has already passed.");
+  }
+  if (slot.bookedBy && slot.bookedBy !== app.id) {
+    throw new InterviewBookingError(
+      "Someone else has booked this slot. Please pick another one."
+    );
+  }
+  const weekly = interviewWeeklySlot(slot);
+  const clash = student.timetable.find((c) => slotsOverlap(weekly, c));
+  if (clash) {
+    throw new InterviewBookingError(
+      `This interview overlaps ${clash.title} (${clash.day} ` +
+        `${clash.start}–${clash.end}) in your timetable.`
+    );
+  }
+  const mine = new Set(student.applications.map((a) => a.id));
+  const other = slots.find(
+    (s) =>
+      s.bookedBy !== null &&
+      s.bookedBy !== app.id &&
+      mine.has(s.bookedBy) &&
+      overlaps(s, slot)
+  );
+  if (other) {
+    throw new InterviewBookingError(
+      `You already have an interview at ${formatInterviewTime(other)}.`
+    );
+  }
+  return slots.map((s) =>
+    s.id === slotId
+      ? { ...s, bookedBy: app.id }
+      : s.bookedBy === app.id
+      ? { ...s, bookedBy: null }
+      : s
+  );
+}
+
+/** Moves a slot (booked or not); same rules as publishing a new one. */
+export function rescheduleSlot(
+  slots: InterviewSlot[],
+  slotId: string,
+  start: number,
+  now: number
+): InterviewSlot[] {
+  const slot = slots.find((s) => s.id === slotId);
+  if (!slot) {
+    throw new InterviewBookingError("This interview slot no longer exists.");
+  }
+  const moved = { ...slot, start };
+  const check = validateInterviewSlots([moved], slots, now);
+  if (!check.ok) throw new InterviewBookingError(check.msg ?? "Invalid time.");
+  return slots.map((s) => (s.id === slotId ? moved : s));
+}
+
+export function cancelBooking(slots: InterviewSlot[], applicationId: string) {
+  return slots.map((s) =>
+    s.bookedBy === applicationId ? { ...s, bookedBy: null } : s
+  );
+}
+
+/**
+ * Frees upcoming slots whose application left the interview stage
+ * (offered, rejected, withdrawn, ...). Past interviews keep their booking as a
+ * record. Returns the same array when nothing changed.
+ */
+export function releaseStaleBookings(
+  slots: InterviewSlot[],
+  applications: Application[],
+  now: number
+) {
+  const interviewing = new Set(
+    applications.filter((a) => a.status === "interview").map((a) => a.id)
+  );
+  const stale = (s: InterviewSlot) =>
+    s.bookedBy !== null && s.start > now && !interviewing.has(s.bookedBy);
+  return slots.some(stale)
+    ? slots.map((s) => (stale(s) ? { ...s, bookedBy: null } : s))
+    : slots;
+}
@@ -0,0 +1,219 @@
+/**
+ * Department-wide TA matching (student-proposing deferred acceptance).
+ * - Students rank their applications (`preference`, 1 = first choice)
+ * - Professors rank their applicants: waitlist order first, then by
+ *   rubric score (see rubric.ts)
+ * - Only interview-stage applications take part, each posting offers at
+ *   most its free seats, and a student gets at most one position
+ * - Courses whose tutorials all clash with the student's timetable are
+ *   left out
+ * The result is a proposal; nothing changes until a coordinator publishes
+ * it, which sends the offers.
+ */
+import { canWaitlist, capacity, offerBlockedReason } from "./capacity";
+import type { Application, Posting, TimeSlot } from "./model";
+import { sendOffer } from "./offers";
+import { rankByScore, weightedScore } from "./rubric";
+import { conflictFreeSlots } from "./schedule";
+import { StatusTransitionError } from "./status";
+
+export type Assignment = {
+  app: Application;
+  posting: Posting;
+  /** position among the student's eligible choices (1 = first choice) */
+  preference: number;
+  /** the professor's rank for this applicant (1 = best) */
+  rank: number;
+  score: number | null;
+};
+
+export type MatchResult = {
+  assignments: Assignment[];
+  /** eligible applications that didn't get a seat */
+  unmatched: Application[];
+  /** applications left out because of a schedule conflict */
+  conflicts: Application[];
+};
+
+export type MatchOptions = {
+  /** groups applications by student */
+  studentOf: (app: Application) => string;
+  /** the student's weekly classes */
+  classesOf: (student: string) => TimeSlot[];
+};
+
+/** Ranked applications first (by rank), then unranked ones oldest first. */
+export function byPreference(apps: Application[]) {
+  return [...apps].sort(
+    (a, b) =>
+      (a.preference ?? Infinity) - (b.preference ?? Infinity) ||
+      a.createdAt - b.createdAt
+  );
+}
+
+/** Applications a student can still rank (not final, not yet an offer). */
+export const canRank = (a: Application) =>
+  ["submitted", "reviewed", "interview"].includes(a.status);
+
+/**
+ * Moves application `id` up (-1) or down (+1) in the student's ranking and
+ * renumbers the rankable applications 1..n.
+ */
+export function movePreference(
+  apps: Application[],
+  id: string,
+  delta: number
+): Application[] {
+  const order = byPreference(apps.filter(canRank)).map((a) => a.id);
+  const i = order.indexOf(id);
+  const j = i + delta;
+  if (i < 0 || j < 0 || j >= order.length) return apps;
+  [order[i], order[j]] = [order[j], order[i]];
+  return apps.map((a) => {
+    const rank = order.indexOf(a.id);
+    return rank < 0 ? a : { ...a, preference: rank + 1 };
+  });
+}
+
+/** The professor's ranking of a posting's interview-stage applicants. */
+export function professorRanking(posting: Posting, apps: Application[]) {
+  const eligible = apps.filter(
+    (a) => a.postingId === posting.id && canWaitlist(a)
+  );
+  const waitlisted = posting.waitlist
+    .map((id) => eligible.find((a) => a.id === id))
+    .filter((a): a is Application => !!a);
+  const rest = eligible.filter((a) => !posting.waitlist.includes(a.id));
+  return [...waitlisted, ...rankByScore(rest, posting.rubric)];
+}
+
+const fitsSchedule = (posting: Posting, classes: TimeSlot[]) =>
+  posting.tutorialSlots.length === 0 ||
+  conflictFreeSlots(posting, classes).length > 0;
+
+export function proposeMatching(
+  postings: Posting[],
+  apps: Application[],
+  { studentOf, classesOf }: MatchOptions
+): MatchResult {
+  const postingById = new Map(postings.map((p) => [p.id, p]));
+  // students already holding an offer or a position sit this round out
+  const placed = new Set(
+    apps
+      .filter((a) => a.status === "offered" || a.status === "offer-accepted")
+      .map(studentOf)
+  );
+  const conflicts: Application[] = [];
+  const choices = new Map<string, Application[]>();
+  for (const app of byPreference(apps)) {
+    const posting = postingById.get(app.postingId);
+    const student = studentOf(app);
+    if (!posting || !canWaitlist(app) || placed.has(student)) continue;
+    if (!fitsSchedule(posting, classesOf(student))) {
+      conflicts.push(app);
+      continue;
+    }
+    choices.set(student, [...(choices.get(student) ?? []), app]);
+  }
+
+  const rankOf = new Map<string, number>();
+  for (const posting of postings) {
+    professorRanking(posting, apps).forEach((a, i) => rankOf.set(a.id, i + 1));
+  }
+  const seats = new Map(
+    postings.map((p) => [p.id, capacity(p, apps).remaining])
+  );
+
+  // each free student proposes to their next choice; a posting keeps its
+  // best `seats` proposals and bumps the rest back into the queue
+  const held = new Map<string, Application[]>();
+  const next = new Map<string, number>();
+  const queue = [...choices.keys()];
+  while (queue.length > 0) {
+    const student = queue.shift() as string;
+    const list = choices.get(student) ?? [];
+    const i = next.get(student) ?? 0;
+    if (i >= list.length) continue;
+    next.set(student, i + 1);
+    const app = list[i];
+    const kept = [...(held.get(app.postingId) ?? []), app].sort(
+      (a, b) => (rankOf.get(a.id) ?? 0) - (rankOf.get(b.id) ?? 0)
+    );
+    const limit = seats.get(app.postingId) ?? 0;
+    held.set(app.postingId, kept.slice(0, limit));
+    kept.slice(limit).forEach((a) => queue.push(studentOf(a)));
+  }
+
+  const assignments: Assignment[] = [];
+  for (const [postingId, list] of held) {
+    const posting = postingById.get(postingId) as Posting;
+    for (const app of list) {
+      assignments.push({
+        app,
+        posting,
+        preference: (choices.get(studentOf(app))?.indexOf(app) ?? 0) + 1,
+        rank: rankOf.get(app.id) ?? 0,
+        score: weightedScore(app.scores, posting.rubric).score,
+      });
+    }
+  }
+  const matched = new Set(assignments.map((a) => studentOf(a.app)));
+  return {
+    assignments: assignments.sort(
+      (a, b) =>
+        a.posting.code.localeCompare(b.posting.code) || a.rank - b.rank
+    ),
+    unmatched: [...choices.entries()]
+      .filter(([student]) => !matched.has(student))
+      .flatMap(([, list]) => list),
+    conflicts,
+  };
+}
+
+export type PublishResult = {
+  offered: Application[];
+  skipped: { app: Application; reason: string }[];
+};
+
+/**
+ * Sends the offers of a reviewed proposal. Applications or postings that
+ * changed since the run (offered by hand, withdrawn, seats filled) are
+ * skipped with the reason instead of failing the whole batch.
+ */
+export function publishMatching(
+  assignments: Assignment[],
+  apps: Application[],
+  postings: Posting[],
+  respondBy: number,
+  message: (app: Application, posting: Posting) => string,
+  now: number,
+  by: string | null = null
+): PublishResult {
+  const result: PublishResult = { offered: [], skipped: [] };
+  let current = apps;
+  for (const { app: proposed, posting: old } of assignments) {
+    const app = current.find((a) => a.id === proposed.id) ?? proposed;
+    const posting = postings.find((p) => p.id === old.id) ?? old;
+    const blocked = offerBlockedReason(posting, current);
+    if (blocked) {
+      result.skipped.push({ app, reason: blocked });
+      continue;
+    }
+    try {
+      const offer = sendOffer(
+        app,
+        respondBy,
+        message(app, posting),
+        now,
+        "coordinator",
+        by
+      );
+      result.offered.push(offer);
+      current = current.map((a) => (a.id === offer.id ? offer : a));
+    } catch (err) {
+      if (!(err instanceof StatusTransitionError)) throw err;
+      result.skipped.push({ app, reason: err.message });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,141 @@
+/**
+ * Seed data for the prototype (no backend yet).
+ * initialPostings seeds the persisted postings on first load (see schema.ts),
+ * relative to that moment so the demo always has something open.
+ */
+import type { User } from "./auth";
+import type {
+  Posting,
+  StudentProfile,
+  Term,
+  TimetableEntry,
+} from "./model";
+import { DEFAULT_RUBRIC } from "./rubric";
+
+// Term the postings are for; bounds exported calendar events
+export const CURRENT_TERM: Term = {
+  name: "Winter 2025",
+  start: "2025-01-06",
+  end: "2025-04-08",
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** `seededAt`: first load, from the app's Clock. */
+export function initialPostings(seededAt: number): Posting[] {
+  return [
+    {
+      id: "SFWRENG-2HC3-W25",
+      code: "2HC3",
+      title: "SFWRENG 2HC3 – Human-Computer Interfaces",
+      professor: "Dr. Yuan",
+      staff: [
+        { name: "Dr. Patel", role: "co-instructor" },
+        { name: "Jordan Lee", role: "reviewer" },
+      ],
+      classMeetings: [
+        { day: "Mon", start: "14:30", end: "16:20", location: "ITB 137" },
+      ],
+      description:
+        "Run weekly tutorials on UI prototyping and usability evaluation, hold office hours and help mark the term project.",
+      requiredQualifications: [
+        "Completed SFWRENG 2HC3 (or equivalent) with B+ or higher",
+        "Comfortable with Figma and basic web front-end",
+      ],
+      positions: 3,
+      hoursPerPosition: 130,
+      opensAt: seededAt - 7 * DAY,
+      deadline: seededAt + 3 * DAY,
+      tutorialSlots: [
+        { day: "Tue", start: "10:30", end: "11:20" },
+        { day: "Thu", start: "09:30", end: "10:20" },
+      ],
+      closed: false,
+      availabilityHistory: [],
+      rubric: DEFAULT_RUBRIC.map((c) => ({ ...c })),
+      defaultTemplates: {},
+      waitlist: [],
+      blindReview: false,
+    },
+    {
+      id: "SFWRENG-2AA4-W25",
+      code: "2AA4",
+      title: "SFWRENG 2AA4 – Software Abstraction & Specification",
+      professor: "Dr. Smith",
+      staff: [],
+      classMeetings: [
+        { day: "Tue", start: "10:30", end: "12:20", location: "ITB 201" },
+      ],
+      description:
+        "Lead tutorials on specification and design with Java, answer questions on the course forum and mark assignments.",
+      requiredQualifications: [
+        "Completed SFWRENG 2AA4 (or equivalent) with A- or higher",
+        "Solid Java and JUnit experience",
+      ],
+      positions: 2,
+      hoursPerPosition: 65,
+      opensAt: seededAt - 2 * DAY,
+      deadline: seededAt + 10 * DAY,
+      tutorialSlots: [
+        { day: "Wed", start: "15:30", end: "16:20" },
+        { day: "Fri", start: "11:30", end: "12:20" },
+      ],
+      closed: false,
+      availabilityHistory: [],
+      rubric: DEFAULT_RUBRIC.map((c) => ({ ...c })),
+      defaultTemplates: {},
+      waitlist: [],
+      blindReview: false,
+    },
+  ];
+}
+
+// Demo accounts besides the professors (see auth.ts)
+export const MOCK_USERS: User[] = [
+  { id: "student", name: "Alex Chen", role: "student" },
+  { id: "coordinator", name: "CAS TA Coordinator", role: "coordinator" },
+];
+
+// The demo student's profile until they edit it (see profile.ts)
+export const DEMO_STUDENT_PROFILE: StudentProfile = {
+  id: "student",
+  name: "Alex Chen",
+  studentNumber: "400123456",
+  email: "chena@mcmaster.ca",
+  program: "Software Engineering",
+  year: 3,
+  taExperience: "",
+  grades: { "2HC3": "A", "2AA4": "A-" },
+};
+
+// Example timetable students can load to try the conflict checks
+export const EXAMPLE_TIMETABLE: TimetableEntry[] = [
+  {
+    id: "ex-1",
+    title: "COMPSCI 2C03",
+    day: "Mon",
+    start: "12:30",
+    end: "13:20",
+  },
+  {
+    id: "ex-2",
+    title: "MATH 2Z03",
+    day: "Tue",
+    start: "09:30",
+    end: "10:20",
+  },
+  {
+    id: "ex-3",
+    title: "SFWRENG 2DA4",
+    day: "Wed",
+    start: "14:30",
+    end: "15:20",
+  },
+  {
+    id: "ex-4",
+    title: "STATS 3Y03",
+    day: "Thu",
+    start: "13:30",
+    end: "14:20",
+  },
+];
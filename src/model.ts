@@ -0,0 +1,234 @@
+/**
+ * Domain model shared by the student and professor views.
+ * Everything here is plain JSON so it can be persisted as-is
+ * (file blobs are referenced through StoredDocument, see documentStore).
+ */
+import type { StoredDocument } from "./documentStore";
+
+export type Weekday = "Mon" | "Tue" | "Wed" | "Thu" | "Fri" | "Sat" | "Sun";
+
+export const WEEKDAYS: Weekday[] = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Teaching term; dates as "YYYY-MM-DD". */
+export type Term = {
+  name: string;
+  start: string;
+  end: string;
+};
+
+/** A weekly block of time, times as "HH:MM" (24h). */
+export type TimeSlot = {
+  day: Weekday;
+  start: string;
+  end: string;
+};
+
+export type TutorialSlot = TimeSlot;
+
+/** One weekly lecture meeting of a course (display text is derived). */
+export type ClassMeeting = TimeSlot & { location?: string };
+
+/** A weekly class in the student's own timetable. */
+export type TimetableEntry = TimeSlot & {
+  id: string;
+  title: string;
+  location?: string;
+};
+
+/** One line of a posting's scoring rubric. */
+export type RubricCriterion = {
+  id: string;
+  label: string;
+  /** relative weight; weights don't have to add up to 100 */
+  weight: number;
+};
+
+/** A professor's reusable next-step message (may contain {placeholders}). */
+export type MessageTemplate = {
+  id: string;
+  name: string;
+  /** status the message is written for */
+  status: ApplicationStatus;
+  body: string;
+  /** professor who saved it; each professor has their own library */
+  professor: string;
+};
+
+/** A one-off interview time a professor published for a posting. */
+export type InterviewSlot = {
+  id: string;
+  postingId: string;
+  /** epoch ms */
+  start: number;
+  minutes: number;
+  location: string;
+  /** id of the application that booked it */
+  bookedBy: string | null;
+};
+
+/**
+ * What someone does on a posting. The owner is the posting's `professor`;
+ * co-instructors share the work, reviewers (e.g. a lead TA) only score
+ * and comment.
+ */
+export type StaffRole = "owner" | "co-instructor" | "reviewer";
+
+/** Someone besides the owner working on a posting. */
+export type StaffMember = {
+  name: string;
+  role: Exclude<StaffRole, "owner">;
+};
+
+/** A manual or automatic close / reopen of a posting. */
+export type AvailabilityChange = {
+  action: "closed" | "reopened";
+  by: "professor" | "coordinator" | "system";
+  at: number;
+  /** deadline in effect after the change (null = none) */
+  deadline: number | null;
+};
+
+export type Posting = {
+  id: string;
+  code: string;
+  title: string;
+  /** the owner */
+  professor: string;
+  staff: StaffMember[];
+  classMeetings: ClassMeeting[];
+  tutorialSlots: TutorialSlot[];
+  description: string;
+  requiredQualifications: string[];
+  /** applications accepted from opensAt until deadline (ms timestamps) */
+  opensAt: number;
+  deadline: number | null;
+  closed: boolean;
+  availabilityHistory: AvailabilityChange[];
+  rubric: RubricCriterion[];
+  /** number of TA positions */
+  positions: number;
+  hoursPerPosition: number;
+  /** application ids, best first; offered automatically as seats free up */
+  waitlist: string[];
+  /** template id to start from, per status */
+  defaultTemplates: Partial<Record<ApplicationStatus, string>>;
+  /** hide applicants' identities in the first round (see blind.ts) */
+  blindReview: boolean;
+};
+
+export type ApplicationStatus =
+  | "submitted"
+  | "reviewed"
+  | "interview"
+  | "offered"
+  | "offer-accepted"
+  | "offer-declined"
+  | "expired"
+  | "rejected"
+  | "withdrawn";
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  "submitted",
+  "reviewed",
+  "interview",
+  "offered",
+  "offer-accepted",
+  "offer-declined",
+  "expired",
+  "rejected",
+  "withdrawn",
+];
+
+/** Who caused a status change. */
+export type StatusActor = "student" | "professor" | "coordinator" | "system";
+
+/** One entry of an application's status timeline (oldest first). */
+export type StatusChange = {
+  from: ApplicationStatus | null;
+  to: ApplicationStatus;
+  actor: StatusActor;
+  at: number;
+  message: string;
+  /** name of the staff member or coordinator who made the change */
+  by: string | null;
+};
+
+/** A score or comment left by a staff member while reviewing. */
+export type ReviewNote = {
+  by: string;
+  at: number;
+  kind: "score" | "comment";
+  text: string;
+};
+
+/** What a student tells the staff of the postings they apply to. */
+export type StudentProfile = {
+  /** the student's user id (see auth.ts) */
+  id: string;
+  name: string;
+  studentNumber: string;
+  email: string;
+  program: string;
+  /** year of study, null = not given */
+  year: number | null;
+  /** earlier TA positions, free text */
+  taExperience: string;
+  /** final grade by course code, e.g. { "2HC3": "A" } */
+  grades: Record<string, string>;
+};
+
+/** A TA offer; the student has until `respondBy` to accept or decline. */
+export type Offer = {
+  sentAt: number;
+  respondBy: number;
+};
+
+export type Application = {
+  id: string;
+  postingId: string;
+  /** copies of the posting's title and code, kept if it's deleted */
+  course: string;
+  courseCode: string;
+  /** the applicant's profile, refreshed when they edit it (null = unknown) */
+  student: StudentProfile | null;
+  status: ApplicationStatus;
+  resume: StoredDocument | null;
+  transcript: StoredDocument | null;
+  note: string;
+  nextStep: string;
+  createdAt: number;
+  history: StatusChange[];
+  /** rubric scores by criterion id (0–5), set by the professor */
+  scores: Record<string, number>;
+  /** latest offer, kept after the student responds */
+  offer: Offer | null;
+  /** the student's ranking among their applications (1 = first choice) */
+  preference: number | null;
+  /** staff-only review trail, oldest first */
+  reviews: ReviewNote[];
+  /** identity shown early during a blind review (see blind.ts) */
+  revealed: { at: number; by: string } | null;
+  /** the student's weekly classes, kept in step with their timetable */
+  classes: TimeSlot[];
+};
+
+export function isApplicationStatus(v: unknown): v is ApplicationStatus {
+  return APPLICATION_STATUSES.includes(v as ApplicationStatus);
+}
+
+export function isWeekday(v: unknown): v is Weekday {
+  return WEEKDAYS.includes(v as Weekday);
+}
+
+/** Message shown to the student when an application enters a status. */
+export const DEFAULT_NEXT_STEP: Record<ApplicationStatus, string> = {
+  submitted: "Awaiting review",
+  reviewed: "Your application has been reviewed.",
+  interview: "You have been shortlisted for an interview.",
+  offered: "You have a TA offer. Please accept or decline it in time.",
+  "offer-accepted": "Offer accepted. Welcome to the team!",
+  "offer-declined": "You declined this offer.",
+  expired: "The offer expired without a response.",
+  rejected: "You were not selected for this position.",
+  withdrawn: "Application withdrawn by student",
+};
@@ -0,0 +1,163 @@
+/**
+ * Per-user notification inbox (persisted, read / unread).
+ * - Status changes go to the student unless they made them, and to the
+ *   posting's staff except whoever made them (co-instructors hear about
+ *   each other's decisions)
+ * - New applications go to the posting's staff; closed postings to its
+ *   staff and to every student whose application there is still open
+ * - These are worked out by comparing applications / postings before and
+ *   after a change (see changeNotifications), so every path that changes
+ *   them (dialogs, bulk actions, matching, waitlist, deadlines) is covered
+ * Staff notices only use the "Applicant #" label: the inbox doesn't know
+ * whether blind review still hides the name (see blind.ts).
+ */
+import { professorUser } from "./auth";
+import type { Application, Posting } from "./model";
+import { anonymousName, studentIdOf } from "./profile";
+import { isFinalStatus } from "./status";
+
+export type InboxItem = {
+  id: string;
+  /** user id of the recipient (see auth.ts) */
+  to: string;
+  at: number;
+  title: string;
+  body: string;
+  read: boolean;
+  /** what the notice links to */
+  applicationId: string | null;
+  postingId: string | null;
+};
+
+export type NewInboxItem = Omit<InboxItem, "id" | "at" | "read">;
+
+// oldest entries are dropped beyond this (all users together)
+export const INBOX_LIMIT = 500;
+
+/** User ids of everyone on the posting's staff, owner first. */
+export const staffIds = (posting: Pick<Posting, "professor" | "staff">) =>
+  [posting.professor, ...posting.staff.map((s) => s.name)]
+    .filter(Boolean)
+    .map((name) => professorUser(name).id);
+
+export function deliver(
+  inbox: InboxItem[],
+  items: NewInboxItem[],
+  now: number,
+  makeId: () => string
+): InboxItem[] {
+  const added = items.map((item) => ({
+    ...item,
+    id: makeId(),
+    at: now,
+    read: false,
+  }));
+  return [...inbox, ...added].slice(-INBOX_LIMIT);
+}
+
+/** The user's notices, newest first. */
+export const inboxOf = (inbox: InboxItem[], userId: string) =>
+  inbox.filter((n) => n.to === userId).reverse();
+
+export const unreadCount = (inbox: InboxItem[], userId: string) =>
+  inbox.filter((n) => n.to === userId && !n.read).length;
+
+/** Marks `ids`, or (without ids) every notice of `userId`, as read. */
+export function markRead(
+  inbox: InboxItem[],
+  userId: string,
+  ids?: string[]
+): InboxItem[] {
+  return inbox.map((n) =>
+    n.to === userId && (!ids || ids.includes(n.id)) ? { ...n, read: true } : n
+  );
+}
+
+type PortalState = { applications: Application[]; postings: Posting[] };
+
+const STAFF_EVENTS: Partial<Record<Application["status"], string>> = {
+  withdrawn: "withdrew their application",
+  reviewed: "was shortlisted",
+  interview: "was invited to interview",
+  rejected: "was rejected",
+  offered: "was sent an offer",
+  "offer-accepted": "accepted the offer",
+  "offer-declined": "declined the offer",
+  expired: "didn't answer the offer in time",
+};
+
+const CLOSED_BY: Record<Posting["availabilityHistory"][0]["by"], string> = {
+  professor: "by its staff",
+  coordinator: "by the coordinator",
+  system: "because its deadline passed",
+};
+
+/** Notices for everything that happened between `before` and `after`. */
+export function changeNotifications(
+  before: PortalState,
+  after: PortalState
+): NewInboxItem[] {
+  const items: NewInboxItem[] = [];
+  const postingById = new Map(after.postings.map((p) => [p.id, p]));
+  const previousApps = new Map(before.applications.map((a) => [a.id, a]));
+
+  for (const app of after.applications) {
+    const posting = postingById.get(app.postingId);
+    if (!posting) continue;
+    const course = posting.code;
+    const link = { applicationId: app.id, postingId: posting.id };
+    const toStaff = (title: string, body: string, except?: string) =>
+      staffIds(posting)
+        .filter((to) => to !== except)
+        .forEach((to) => items.push({ to, title, body, ...link }));
+
+    const previous = previousApps.get(app.id);
+    if (!previous) {
+      toStaff("New Application", `${course}: ${anonymousName(app)} applied`);
+      continue;
+    }
+    for (const change of app.history.slice(previous.history.length)) {
+      const event = STAFF_EVENTS[change.to] ?? `moved to ${change.to}`;
+      toStaff(
+        "Application Updated",
+        `${course}: ${anonymousName(app)} ${event}` +
+          (change.by ? ` (${change.by})` : ""),
+        change.by ? professorUser(change.by).id : undefined
+      );
+      if (change.actor !== "student") {
+        items.push({
+          to: studentIdOf(app),
+          title: "Application Updated",
+          body: `${course}: ${change.message}`,
+          ...link,
+        });
+      }
+    }
+  }
+
+  const previousPostings = new Map(before.postings.map((p) => [p.id, p]));
+  for (const posting of after.postings) {
+    const previous = previousPostings.get(posting.id);
+    if (!previous) continue;
+    const open = after.applications.filter(
+      (a) => a.postingId === posting.id && !isFinalStatus(a.status)
+    );
+    posting.availabilityHistory
+      .slice(previous.availabilityHistory.length)
+      .filter((c) => c.action === "closed")
+      .forEach((c) => {
+        const notice = {
+          title: "Posting Closed",
+          body: `${posting.code} was closed ${CLOSED_BY[c.by]}`,
+          postingId: posting.id,
+        };
+        staffIds(posting).forEach((to) =>
+          items.push({ to, ...notice, applicationId: null })
+        );
+        open.forEach((app) =>
+          items.push({ to: studentIdOf(app), ...notice, applicationId: app.id })
+        );
+      });
+  }
+  return items;
+}
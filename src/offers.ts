@@ -0,0 +1,88 @@
+/**
+ * TA offers.
+ * - A professor sends an offer to an interviewed applicant with a response
+ *   deadline (status "offered")
+ * - The student accepts or declines before the deadline
+ * - Offers nobody answered expire (by the system) once the deadline passes
+ * All functions take `now` explicitly; callers get it from a Clock.
+ */
+import { DAY } from "./deadlines";
+import {
+  DEFAULT_NEXT_STEP,
+  type Application,
+  type StatusActor,
+} from "./model";
+import { StatusTransitionError, transition } from "./status";
+
+export const DEFAULT_OFFER_DAYS = 3;
+
+export function validateRespondBy(
+  respondBy: number | null,
+  now: number
+): { ok: boolean; msg?: string } {
+  if (respondBy === null) {
+    return { ok: false, msg: "Pick a response deadline for the offer." };
+  }
+  if (respondBy <= now) {
+    return { ok: false, msg: "The response deadline must be in the future." };
+  }
+  if (respondBy > now + 60 * DAY) {
+    return { ok: false, msg: "Give students at most 60 days to respond." };
+  }
+  return { ok: true };
+}
+
+/**
+ * → "offered", recording the offer. Sent by the professor, by the system
+ * from the waitlist (see capacity.ts) or by the coordinator publishing a
+ * matching run. Throws like `transition`.
+ */
+export function sendOffer(
+  app: Application,
+  respondBy: number,
+  message: string = DEFAULT_NEXT_STEP.offered,
+  now: number = Date.now(),
+  actor: StatusActor = "professor",
+  by: string | null = null
+): Application {
+  const next = transition(app, "offered", actor, message, now, by);
+  return { ...next, offer: { sentAt: now, respondBy } };
+}
+
+/** Student accepts / declines; too late once the offer's deadline passed. */
+export function respondToOffer(
+  app: Application,
+  accept: boolean,
+  now: number = Date.now()
+): Application {
+  if (app.status === "offered" && app.offer && app.offer.respondBy <= now) {
+    throw new StatusTransitionError(
+      "This offer expired on " +
+        new Date(app.offer.respondBy).toLocaleString() +
+        "."
+    );
+  }
+  return transition(
+    app,
+    accept ? "offer-accepted" : "offer-declined",
+    "student",
+    undefined,
+    now
+  );
+}
+
+export const isOfferDue = (a: Application, now: number) =>
+  a.status === "offered" && a.offer !== null && a.offer.respondBy <= now;
+
+/**
+ * Expires unanswered offers whose deadline passed, dated at the deadline.
+ * Returns the same array when nothing changed.
+ */
+export function expireOffers(apps: Application[], now: number) {
+  if (!apps.some((a) => isOfferDue(a, now))) return apps;
+  return apps.map((a) =>
+    a.offer && isOfferDue(a, now)
+      ? transition(a, "expired", "system", undefined, a.offer.respondBy)
+      : a
+  );
+}
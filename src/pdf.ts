@@ -0,0 +1,105 @@
+/**
+ * PDF upload checks and in-app viewer helpers.
+ * - Uploads are checked by content, not by name / MIME type (see
+ *   validatePdfFile)
+ * - Pages are drawn by the browser's built-in PDF viewer (in an iframe);
+ *   page and zoom go in the URL fragment ("#page=2&zoom=125"), which
+ *   Chrome, Edge and Firefox all understand
+ */
+import { formatFileSize } from "./documentStore";
+
+export const PDF_MAX_BYTES = 5 * 1024 * 1024;
+export const PDF_MAX_PAGES = 20;
+
+// readers accept the signature anywhere in the first KB, and the end
+// marker anywhere in the last one (trailing junk / whitespace)
+const SIGNATURE_WINDOW = 1024;
+const EOF_WINDOW = 1024;
+
+// percent
+export const ZOOM_LEVELS = [50, 75, 100, 125, 150, 200];
+export const DEFAULT_ZOOM = 100;
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes);
+
+/**
+ * Page count from the raw file, null when it can't be told (page objects
+ * inside compressed object streams aren't visible without a full parser).
+ */
+export function countPdfPages(bytes: Uint8Array): number | null {
+  const pages = latin1(bytes).match(/\/Type\s*\/Page(?![A-Za-z])/g)?.length ?? 0;
+  return pages > 0 ? pages : null;
+}
+
+/**
+ * Content checks for an uploaded PDF (`label` names it in messages):
+ * - has the "%PDF-" signature (a renamed .docx doesn't)
+ * - isn't encrypted (staff couldn't open it)
+ * - ends with an end-of-file marker (not truncated / corrupted)
+ * - at most PDF_MAX_PAGES pages, when the count can be told
+ * The size limit is checked by validatePdfFile before reading the file.
+ */
+export function inspectPdf(
+  bytes: Uint8Array,
+  label: string
+): { ok: boolean; msg?: string } {
+  if (!latin1(bytes.subarray(0, SIGNATURE_WINDOW)).includes("%PDF-")) {
+    return {
+      ok: false,
+      msg:
+        `${label} isn't a real PDF (it may be a renamed Word or image ` +
+        "file). Save or export it as PDF and try again.",
+    };
+  }
+  const text = latin1(bytes);
+  if (/\/Encrypt(?![A-Za-z])/.test(text)) {
+    return {
+      ok: false,
+      msg: `${label} is password-protected. Upload a copy without a password.`,
+    };
+  }
+  if (!latin1(bytes.subarray(-EOF_WINDOW)).includes("%%EOF")) {
+    return {
+      ok: false,
+      msg: `${label} looks damaged or incomplete. Export it again and retry.`,
+    };
+  }
+  const pages = countPdfPages(bytes);
+  if (pages !== null && pages > PDF_MAX_PAGES) {
+    return {
+      ok: false,
+      msg: `${label} has ${pages} pages; the limit is ${PDF_MAX_PAGES}.`,
+    };
+  }
+  return { ok: true };
+}
+
+export async function validatePdfFile(
+  file: Blob,
+  label: string
+): Promise<{ ok: boolean; msg?: string }> {
+  if (file.size > PDF_MAX_BYTES) {
+    return {
+      ok: false,
+      msg:
+        `${label} is ${formatFileSize(file.size)}; the limit is ` +
+        `${formatFileSize(PDF_MAX_BYTES)}.`,
+    };
+  }
+  return inspectPdf(new Uint8Array(await file.arrayBuffer()), label);
+}
+
+/** Keeps `page` within 1..count (any page ≥ 1 if the count is unknown). */
+export function clampPage(page: number, count: number | null) {
+  return Math.max(1, count === null ? page : Math.min(page, count));
+}
+
+/** Next zoom level up (+1) or down (-1), staying at the ends. */
+export function stepZoom(zoom: number, delta: 1 | -1) {
+  const i = ZOOM_LEVELS.indexOf(zoom);
+  const next = (i < 0 ? ZOOM_LEVELS.indexOf(DEFAULT_ZOOM) : i) + delta;
+  return ZOOM_LEVELS[Math.max(0, Math.min(next, ZOOM_LEVELS.length - 1))];
+}
+
+export const viewerSrc = (url: string, page: number, zoom: number) =>
+  `${url}#page=${page}&zoom=${zoom}`;
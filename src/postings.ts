@@ -0,0 +1,151 @@
+/**
+ * Posting editor helpers: drafts and validation.
+ */
+import type {
+  Application,
+  ApplicationStatus,
+  Posting,
+  TimeSlot,
+} from "./model";
+import { DEFAULT_RUBRIC, validateRubric } from "./rubric";
+import { normalizeSlot, parseTime } from "./time";
+
+export type PostingDraft = Omit<
+  Posting,
+  "id" | "closed" | "availabilityHistory" | "waitlist"
+>;
+
+// a full term TA position
+export const DEFAULT_HOURS = 130;
+
+export function emptyPostingDraft(
+  professor = "",
+  now: number = Date.now()
+): PostingDraft {
+  return {
+    code: "",
+    title: "",
+    professor,
+    staff: [],
+    classMeetings: [{ day: "Mon", start: "14:30", end: "16:20" }],
+    tutorialSlots: [{ day: "Mon", start: "09:30", end: "10:20" }],
+    description: "",
+    requiredQualifications: [],
+    opensAt: now,
+    deadline: now + 14 * 24 * 60 * 60 * 1000,
+    rubric: DEFAULT_RUBRIC.map((c) => ({ ...c })),
+    positions: 1,
+    hoursPerPosition: DEFAULT_HOURS,
+    defaultTemplates: {},
+    blindReview: false,
+  };
+}
+
+export function validateSlot(slot: TimeSlot) {
+  const start = parseTime(slot.start);
+  const end = parseTime(slot.end);
+  if (start === null || end === null) {
+    return { ok: false, msg: "Times must look like 09:30 or 2:30pm." };
+  }
+  if (start >= end) {
+    return { ok: false, msg: "Each time slot must end after it starts." };
+  }
+  return { ok: true };
+}
+
+/** Draft with every time stored as "HH:MM" (call after validatePosting). */
+export function normalizeDraft(draft: PostingDraft): PostingDraft {
+  return {
+    ...draft,
+    classMeetings: draft.classMeetings.map((m) => normalizeSlot(m) ?? m),
+    tutorialSlots: draft.tutorialSlots.map((t) => normalizeSlot(t) ?? t),
+    rubric: draft.rubric.map((c) => ({ ...c, label: c.label.trim() })),
+    staff: draft.staff.map((s) => ({ ...s, name: s.name.trim() })),
+  };
+}
+
+/**
+ * - code, title and professor are required
+ * - at least one class meeting and tutorial slot, each well-formed
+ * - deadline (if any) after the open date
+ * - at least one position with some hours
+ * - a rubric with named criteria and at least one positive weight
+ * - staff members named, listed once and not the owner
+ * - course code must be unique among the other postings
+ */
+export function validatePosting(
+  draft: PostingDraft,
+  others: Posting[]
+): { ok: boolean; msg?: string } {
+  if (!draft.code.trim()) return { ok: false, msg: "Course code is required." };
+  if (!draft.title.trim()) return { ok: false, msg: "Title is required." };
+  if (!draft.professor.trim()) {
+    return { ok: false, msg: "Professor name is required." };
+  }
+  if (draft.classMeetings.length === 0) {
+    return { ok: false, msg: "Add at least one class meeting." };
+  }
+  for (const meeting of draft.classMeetings) {
+    const r = validateSlot(meeting);
+    if (!r.ok) return r;
+  }
+  if (draft.tutorialSlots.length === 0) {
+    return { ok: false, msg: "Add at least one tutorial slot." };
+  }
+  for (const slot of draft.tutorialSlots) {
+    const r = validateSlot(slot);
+    if (!r.ok) return r;
+  }
+  if (draft.deadline !== null && draft.deadline <= draft.opensAt) {
+    return { ok: false, msg: "The deadline must be after the open date." };
+  }
+  if (!Number.isInteger(draft.positions) || draft.positions < 1) {
+    return { ok: false, msg: "A posting needs at least one position." };
+  }
+  if (!(draft.hoursPerPosition > 0)) {
+    return { ok: false, msg: "Hours per position must be above 0." };
+  }
+  const rubric = validateRubric(draft.rubric);
+  if (!rubric.ok) return rubric;
+  const staffNames = new Set([draft.professor.trim()]);
+  for (const member of draft.staff) {
+    const name = member.name.trim();
+    if (!name) return { ok: false, msg: "Every staff member needs a name." };
+    if (staffNames.has(name)) {
+      return {
+        ok: false,
+        msg:
+          name === draft.professor.trim()
+            ? `${name} already owns this posting.`
+            : `${name} is listed twice on the staff.`,
+      };
+    }
+    staffNames.add(name);
+  }
+  const code = draft.code.trim().toLowerCase();
+  if (others.some((p) => p.code.trim().toLowerCase() === code)) {
+    return { ok: false, msg: `A posting for ${draft.code.trim()} already exists.` };
+  }
+  return { ok: true };
+}
+
+// outcomes that no longer tie an application to its posting
+const CLOSED_STATUSES: ApplicationStatus[] = [
+  "withdrawn",
+  "rejected",
+  "offer-declined",
+  "expired",
+];
+
+/**
+ * Applications that block deleting a posting: anything still in review,
+ * offered or accepted. Closed records are kept for the student's history.
+ */
+export function blockingApplications(
+  postingId: string,
+  applications: Application[]
+) {
+  return applications.filter(
+    (a) => a.postingId === postingId && !CLOSED_STATUSES.includes(a.status)
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * Student profiles: who is applying, shown to the staff of the postings
+ * they apply to. A copy travels with each application and is refreshed
+ * whenever the student edits their profile.
+ */
+import { DEMO_STUDENT_PROFILE } from "./mockData";
+import type { Application, StudentProfile, TimeSlot } from "./model";
+
+/** Profile being edited; grades as rows so courses can be added / removed. */
+export type ProfileDraft = Omit<StudentProfile, "grades"> & {
+  grades: { course: string; grade: string }[];
+};
+
+// undergrad + a couple of graduate years
+export const STUDY_YEARS = [1, 2, 3, 4, 5, 6];
+
+const STUDENT_NUMBER_RE = /^\d{9}$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const emptyProfile = (id: string, name = ""): StudentProfile => ({
+  id,
+  name,
+  studentNumber: "",
+  email: "",
+  program: "",
+  year: null,
+  taExperience: "",
+  grades: {},
+});
+
+export function toProfileDraft(p: StudentProfile): ProfileDraft {
+  return {
+    ...p,
+    grades: Object.entries(p.grades).map(([course, grade]) => ({
+      course,
+      grade,
+    })),
+  };
+}
+
+/**
+ * - name, a 9-digit student number and an email address are required
+ * - year (if given) is one of STUDY_YEARS
+ * - every grade row names a course and a grade, each course once
+ */
+export function validateProfile(d: ProfileDraft): {
+  ok: boolean;
+  msg?: string;
+} {
+  if (!d.name.trim()) return { ok: false, msg: "Enter your name." };
+  if (!STUDENT_NUMBER_RE.test(d.studentNumber.trim())) {
+    return { ok: false, msg: "Student numbers have 9 digits." };
+  }
+  if (!EMAIL_RE.test(d.email.trim())) {
+    return { ok: false, msg: "Enter a valid email address." };
+  }
+  if (d.year !== null && !STUDY_YEARS.includes(d.year)) {
+    return { ok: false, msg: "Pick your year of study." };
+  }
+  const courses = new Set<string>();
+  for (const g of d.grades) {
+    const course = g.course.trim().toUpperCase();
+    if (!course || !g.grade.trim()) {
+      return { ok: false, msg: "Each grade needs a course code and a grade." };
+    }
+    if (courses.has(course)) {
+      return { ok: false, msg: `${course} is listed twice.` };
+    }
+    courses.add(course);
+  }
+  return { ok: true };
+}
+
+/** Trimmed profile (call after validateProfile). */
+export function fromProfileDraft(d: ProfileDraft): StudentProfile {
+  return {
+    ...d,
+    name: d.name.trim(),
+    studentNumber: d.studentNumber.trim(),
+    email: d.email.trim(),
+    program: d.program.trim(),
+    taExperience: d.taExperience.trim(),
+    grades: Object.fromEntries(
+      d.grades.map((g) => [g.course.trim().toUpperCase(), g.grade.trim()])
+    ),
+  };
+}
+
+export const isProfileComplete = (p: StudentProfile) =>
+  validateProfile(toProfileDraft(p)).ok;
+
+/** The student's grade in course `code`, null if they didn't give one. */
+export function courseGrade(p: StudentProfile | null, code: string) {
+  if (!p) return null;
+  const key = code.trim().toUpperCase();
+  const hit = Object.entries(p.grades).find(
+    ([course]) => course.toUpperCase() === key
+  );
+  return hit?.[1] ?? null;
+}
+
+/** Label for an application whose student isn't known (or is hidden). */
+export const anonymousName = (app: Application) =>
+  `Applicant #${app.id.slice(-5)}`;
+
+/** Name to show staff; older applications only have their id. */
+export const applicantName = (app: Application) =>
+  app.student?.name || anonymousName(app);
+
+/**
+ * User id of the student who applied. Applications without a profile
+ * predate profiles and came from the demo student using this browser.
+ */
+export const studentIdOf = (app: Application) =>
+  app.student?.id ?? DEMO_STUDENT_PROFILE.id;
+
+/** Just the times of a timetable (titles / locations stay private). */
+export const toClasses = (timetable: TimeSlot[]): TimeSlot[] =>
+  timetable.map(({ day, start, end }) => ({ day, start, end }));
+
+/**
+ * Copies the student's timetable onto their applications, so the matching
+ * run checks each student against their own classes. Returns `apps` itself
+ * when nothing changed.
+ */
+export function attachClasses(
+  apps: Application[],
+  profile: StudentProfile,
+  timetable: TimeSlot[]
+): Application[] {
+  const classes = toClasses(timetable);
+  const key = JSON.stringify(classes);
+  let changed = false;
+  const next = apps.map((a) => {
+    const theirs = !a.student || a.student.id === profile.id;
+    if (!theirs || JSON.stringify(a.classes) === key) return a;
+    changed = true;
+    return { ...a, classes };
+  });
+  return changed ? next : apps;
+}
+
+/**
+ * Copies an edited profile onto the student's applications. Applications
+ * without a profile predate profiles and were made by the same (only)
+ * student in this browser.
+ */
+export function attachProfile(
+  apps: Application[],
+  profile: StudentProfile
+): Application[] {
+  return apps.map((a) =>
+    !a.student || a.student.id === profile.id ? { ...a, student: profile } : a
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * Staff review trail: scores and comments, each with who left it.
+ * Only staff see it (students get the status timeline).
+ */
+import type { Application, ReviewNote, RubricCriterion } from "./model";
+import { SCORE_MAX } from "./rubric";
+
+export const COMMENT_MAX = 1000;
+
+export function validateComment(text: string) {
+  if (!text.trim()) return { ok: false, msg: "Write a comment first." };
+  if (text.length > COMMENT_MAX) {
+    return {
+      ok: false,
+      msg: `Keep comments under ${COMMENT_MAX} characters.`,
+    };
+  }
+  return { ok: true };
+}
+
+export function addReviewNote(
+  app: Application,
+  by: string,
+  kind: ReviewNote["kind"],
+  text: string,
+  now: number = Date.now()
+): Application {
+  const note: ReviewNote = { by, at: now, kind, text: text.trim() };
+  return { ...app, reviews: [...app.reviews, note] };
+}
+
+/** e.g. "Grade: 4/5" or "Grade: cleared". */
+export function scoreNoteText(criterion: RubricCriterion, v: number | null) {
+  return `${criterion.label}: ${v === null ? "cleared" : `${v}/${SCORE_MAX}`}`;
+}
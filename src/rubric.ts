@@ -0,0 +1,77 @@
+/**
+ * Per-posting scoring rubric.
+ * Each criterion is scored 0–SCORE_MAX by the professor; the weighted score
+ * is normalized to 0–100 so postings with different weights compare.
+ */
+import type { Application, RubricCriterion } from "./model";
+
+export const SCORE_MAX = 5;
+
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  { id: "grade", label: "Prior grade in the course", weight: 40 },
+  { id: "experience", label: "Relevant experience", weight: 35 },
+  { id: "availability", label: "Availability fit", weight: 25 },
+];
+
+export type WeightedScore = {
+  /** 0–100 over the criteria scored so far (null if none are) */
+  score: number | null;
+  scored: number;
+  total: number;
+};
+
+export function weightedScore(
+  scores: Application["scores"],
+  rubric: RubricCriterion[]
+): WeightedScore {
+  let weighted = 0;
+  let weights = 0;
+  let scored = 0;
+  for (const c of rubric) {
+    const v = scores[c.id];
+    if (typeof v !== "number" || c.weight <= 0) continue;
+    weighted += (c.weight * v) / SCORE_MAX;
+    weights += c.weight;
+    scored++;
+  }
+  return {
+    score: weights > 0 ? Math.round((weighted / weights) * 1000) / 10 : null,
+    scored,
+    total: rubric.filter((c) => c.weight > 0).length,
+  };
+}
+
+/**
+ * Highest weighted score first. Fully scored applicants rank above partly
+ * scored ones, unscored applicants go last (newest first among them).
+ */
+export function rankByScore(apps: Application[], rubric: RubricCriterion[]) {
+  const key = (a: Application) => {
+    const w = weightedScore(a.scores, rubric);
+    return {
+      tier: w.score === null ? 2 : w.scored < w.total ? 1 : 0,
+      score: w.score ?? 0,
+    };
+  };
+  return [...apps].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    return ka.tier - kb.tier || kb.score - ka.score || b.createdAt - a.createdAt;
+  });
+}
+
+export function validateRubric(rubric: RubricCriterion[]) {
+  if (rubric.length === 0) {
+    return { ok: false, msg: "Add at least one criterion." };
+  }
+  if (rubric.some((c) => !c.label.trim())) {
+    return { ok: false, msg: "Every criterion needs a name." };
+  }
+  if (rubric.some((c) => !Number.isFinite(c.weight) || c.weight < 0)) {
+    return { ok: false, msg: "Weights must be zero or positive numbers." };
+  }
+  if (rubric.every((c) => c.weight === 0)) {
+    return { ok: false, msg: "At least one criterion needs a weight above 0." };
+  }
+  return { ok: true };
+}
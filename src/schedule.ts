@@ -0,0 +1,89 @@
+/**
+ * Schedule conflict checks between tutorial slots and a student timetable.
+ */
+import type { Posting, TimeSlot } from "./model";
+import { minutesOf, slotsOverlap } from "./time";
+
+export function slotConflicts(slot: TimeSlot, classes: TimeSlot[]) {
+  return classes.some((c) => slotsOverlap(slot, c));
+}
+
+export function conflictFreeSlots(posting: Posting, classes: TimeSlot[]) {
+  return posting.tutorialSlots.filter((t) => !slotConflicts(t, classes));
+}
+
+/** Share of the posting's tutorial slots the student could take (0–1). */
+export function scheduleCompatibility(posting: Posting, classes: TimeSlot[]) {
+  if (posting.tutorialSlots.length === 0) return 0;
+  return (
+    conflictFreeSlots(posting, classes).length / posting.tutorialSlots.length
+  );
+}
+
+// ---------------- Calendar layout ----------------
+export type BlockKind = "class" | "lecture" | "tutorial";
+
+export type CalendarBlock = TimeSlot & {
+  id: string;
+  kind: BlockKind;
+  label: string;
+};
+
+export type PlacedBlock = {
+  block: CalendarBlock;
+  /** column inside its overlap group and the group's column count */
+  col: number;
+  cols: number;
+  /** other blocks this one clashes with (a tutorial or lecture vs a class) */
+  conflicts: CalendarBlock[];
+};
+
+// the student's own classes clash with anything the TA job puts on the week
+const clashes = (a: CalendarBlock, b: CalendarBlock) =>
+  (a.kind === "class") !== (b.kind === "class") && slotsOverlap(a, b);
+
+/**
+ * Lays out one day's blocks: overlapping blocks form a group and get
+ * side-by-side columns (first free column, in start-time order).
+ */
+export function layoutDay(blocks: CalendarBlock[]): PlacedBlock[] {
+  const sorted = [...blocks].sort(
+    (a, b) =>
+      minutesOf(a.start) - minutesOf(b.start) ||
+      minutesOf(b.end) - minutesOf(a.end)
+  );
+  const placed: PlacedBlock[] = [];
+  let group: PlacedBlock[] = [];
+  let groupEnd = -1;
+  let colEnds: number[] = [];
+
+  const flush = () => {
+    const cols = colEnds.length;
+    group.forEach((p) => (p.cols = cols));
+    placed.push(...group);
+    group = [];
+    colEnds = [];
+  };
+
+  for (const block of sorted) {
+    const start = minutesOf(block.start);
+    const end = minutesOf(block.end);
+    if (start >= groupEnd) {
+      flush();
+      groupEnd = end;
+    } else {
+      groupEnd = Math.max(groupEnd, end);
+    }
+    let col = colEnds.findIndex((e) => e <= start);
+    if (col < 0) col = colEnds.length;
+    colEnds[col] = end;
+    group.push({
+      block,
+      col,
+      cols: 1,
+      conflicts: blocks.filter((b) => b !== block && clashes(block, b)),
+    });
+  }
+  flush();
+  return placed;
+}
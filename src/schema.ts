@@ -0,0 +1,687 @@
+/**
+ * Persisted keys and their schema migrations.
+ * Bump `version` and add a migration whenever a stored shape changes.
+ */
+import {
+  DEFAULT_BROWSE_FILTERS,
+  type BrowseFilters,
+  type BrowseSort,
+} from "./browseFilters";
+import { ACCESS_LOG_LIMIT, type AccessDenial, type Role } from "./auth";
+import type { IdentityReveal } from "./blind";
+import {
+  DEFAULT_DASHBOARD_FILTERS,
+  type DashboardFilters,
+} from "./dashboard";
+import { isStoredDocument, type StoredDocument } from "./documentStore";
+import { DEMO_STUDENT_PROFILE, initialPostings } from "./mockData";
+import {
+  DEFAULT_NEXT_STEP,
+  isApplicationStatus,
+  isWeekday,
+  type Application,
+  type ApplicationStatus,
+  type AvailabilityChange,
+  type InterviewSlot,
+  type MessageTemplate,
+  type Posting,
+  type StatusChange,
+  type StudentProfile,
+  type TimetableEntry,
+  type TutorialSlot,
+} from "./model";
+import { INBOX_LIMIT, type InboxItem } from "./notifications";
+import { DEFAULT_HOURS } from "./postings";
+import { persistedKey } from "./storage";
+import { DEFAULT_RUBRIC } from "./rubric";
+import { normalizeSlot, parseMeetings } from "./time";
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const str = (v: unknown, fallback = "") =>
+  typeof v === "string" ? v : fallback;
+
+function toTimestamp(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string") {
+    const t = Date.parse(v);
+    if (!Number.isNaN(t)) return t;
+  }
+  return null;
+}
+
+// Up to apps v3 / templates v1 a professor's "accepted" was final; it
+// became the offer statuses afterwards.
+type StatusV3 = ApplicationStatus | "accepted";
+// until apps v5 nobody was named in the history
+type StatusChangeV5 = Omit<StatusChange, "by">;
+type StatusChangeV3 = Omit<StatusChangeV5, "from" | "to"> & {
+  from: StatusV3 | null;
+  to: StatusV3;
+};
+
+const isStatusV3 = (v: unknown): v is StatusV3 =>
+  v === "accepted" || isApplicationStatus(v);
+
+const nextStepV3 = (status: StatusV3) =>
+  status === "accepted"
+    ? "Offer extended. Please watch your email."
+    : DEFAULT_NEXT_STEP[status];
+
+/** What an offer status used to be; everything else maps to itself. */
+const upgradeStatus = (status: StatusV3): ApplicationStatus =>
+  status === "accepted" ? "offer-accepted" : status;
+
+/**
+ * v0 → v1: pre-versioning records.
+ * - resume/transcript were File objects (serialized to {}) → null
+ * - nextStep / createdAt / note may be missing (createdAt → `now`)
+ * - records without an id or postingId can't be shown and are dropped
+ */
+type ApplicationV9 = Omit<Application, "courseCode">;
+type ApplicationV8 = Omit<ApplicationV9, "classes">;
+type ApplicationV7 = Omit<ApplicationV8, "revealed">;
+type ApplicationV6 = Omit<ApplicationV7, "student">;
+type ApplicationV5 = Omit<ApplicationV6, "history" | "reviews"> & {
+  history: StatusChangeV5[];
+};
+type ApplicationV4 = Omit<ApplicationV5, "preference">;
+type ApplicationV3 = Omit<ApplicationV4, "status" | "history" | "offer"> & {
+  status: StatusV3;
+  history: StatusChangeV3[];
+};
+type ApplicationV2 = Omit<ApplicationV3, "scores">;
+type ApplicationV1 = Omit<ApplicationV2, "history">;
+
+export function migrateApplicationV1(
+  raw: unknown,
+  now: number = Date.now()
+): ApplicationV1 | null {
+  if (!isObject(raw)) return null;
+  const id = str(raw.id);
+  const postingId = str(raw.postingId);
+  if (!id || !postingId) return null;
+  const status = isStatusV3(raw.status) ? raw.status : "submitted";
+  return {
+    id,
+    postingId,
+    course: str(raw.course, postingId),
+    status,
+    resume: isStoredDocument(raw.resume) ? raw.resume : null,
+    transcript: isStoredDocument(raw.transcript) ? raw.transcript : null,
+    note: str(raw.note),
+    nextStep: str(raw.nextStep) || nextStepV3(status),
+    createdAt: toTimestamp(raw.createdAt) ?? now,
+  };
+}
+
+/**
+ * v1 → v2: status history. Older records only know their current status,
+ * so the timeline is rebuilt as "submitted" plus (if different) that status.
+ */
+export function migrateApplicationV2(app: ApplicationV1): ApplicationV2 {
+  const history: StatusChangeV3[] = [
+    {
+      from: null,
+      to: "submitted",
+      actor: "student",
+      at: app.createdAt,
+      message: DEFAULT_NEXT_STEP.submitted,
+    },
+  ];
+  if (app.status !== "submitted") {
+    history.push({
+      from: "submitted",
+      to: app.status,
+      actor: app.status === "withdrawn" ? "student" : "professor",
+      at: app.createdAt,
+      message: app.nextStep,
+    });
+  }
+  return { ...app, history };
+}
+
+/** v2 → v3: rubric scores. Nothing has been scored yet. */
+export function migrateApplicationV3(app: ApplicationV2): ApplicationV3 {
+  return { ...app, scores: {} };
+}
+
+/**
+ * v3 → v4: offers. "accepted" meant the position was given, so it becomes
+ * "offer-accepted" (history included); there's no offer record to restore.
+ */
+export function migrateApplicationV4(app: ApplicationV3): ApplicationV4 {
+  return {
+    ...app,
+    status: upgradeStatus(app.status),
+    history: app.history.map((h) => ({
+      ...h,
+      from: h.from && upgradeStatus(h.from),
+      to: upgradeStatus(h.to),
+    })),
+    offer: null,
+  };
+}
+
+/** v4 → v5: preference ranking. Students haven't ranked anything yet. */
+export function migrateApplicationV5(app: ApplicationV4): ApplicationV5 {
+  return { ...app, preference: null };
+}
+
+/**
+ * v5 → v6: staff attribution. Nobody can tell who made past changes, and
+ * there are no review notes yet.
+ */
+export function migrateApplicationV6(app: ApplicationV5): ApplicationV6 {
+  return {
+    ...app,
+    history: app.history.map((h) => ({ ...h, by: null })),
+    reviews: [],
+  };
+}
+
+/**
+ * v6 → v7: student profiles. Nobody knows who sent older applications;
+ * the profile is attached once the student saves theirs.
+ */
+export function migrateApplicationV7(app: ApplicationV6): ApplicationV7 {
+  return { ...app, student: null };
+}
+
+/**
+ * v7 → v8: early reveals move onto the application. Until now the reveal
+ * log was the only record of them.
+ */
+export function migrateApplicationV8(
+  app: ApplicationV7,
+  reveals: IdentityReveal[]
+): ApplicationV8 {
+  const reveal = reveals.find((r) => r.applicationId === app.id);
+  return { ...app, revealed: reveal ? { at: reveal.at, by: reveal.by } : null };
+}
+
+/**
+ * v8 → v9: the student's classes travel with the application. Unknown
+ * until the app copies the timetable over on load (see attachClasses).
+ */
+export function migrateApplicationV9(app: ApplicationV8): ApplicationV9 {
+  return { ...app, classes: [] };
+}
+
+/**
+ * v9 → v10: applications keep the posting's code, so ones left behind by
+ * a deleted posting still show it. Already deleted ones show their id.
+ */
+export function migrateApplicationV10(
+  app: ApplicationV9,
+  postings: Pick<Posting, "id" | "code">[]
+): Application {
+  const posting = postings.find((p) => p.id === app.postingId);
+  return { ...app, courseCode: posting?.code ?? app.postingId };
+}
+
+export const applicationsKey = persistedKey<Application[]>({
+  key: "apps",
+  version: 10,
+  fallback: () => [],
+  migrations: {
+    1: (data, now) =>
+      (Array.isArray(data) ? data : [])
+        .map((raw) => migrateApplicationV1(raw, now))
+        .filter((a): a is ApplicationV1 => a !== null),
+    2: (data) => (data as ApplicationV1[]).map(migrateApplicationV2),
+    3: (data) => (data as ApplicationV2[]).map(migrateApplicationV3),
+    4: (data) => (data as ApplicationV3[]).map(migrateApplicationV4),
+    5: (data) => (data as ApplicationV4[]).map(migrateApplicationV5),
+    6: (data) => (data as ApplicationV5[]).map(migrateApplicationV6),
+    7: (data) => (data as ApplicationV6[]).map(migrateApplicationV7),
+    8: (data) => {
+      const reveals = revealLogKey.load();
+      return (data as ApplicationV7[]).map((a) =>
+        migrateApplicationV8(a, reveals)
+      );
+    },
+    9: (data) => (data as ApplicationV8[]).map(migrateApplicationV9),
+    10: (data, now) => {
+      const postings = postingsKey.load(now);
+      return (data as ApplicationV9[]).map((a) =>
+        migrateApplicationV10(a, postings)
+      );
+    },
+  },
+});
+
+function migrateSlot(raw: unknown): TutorialSlot | null {
+  if (!isObject(raw) || !isWeekday(raw.day)) return null;
+  const start = str(raw.start);
+  const end = str(raw.end);
+  return start && end ? { day: raw.day, start, end } : null;
+}
+
+type PostingV9 = Omit<Posting, "blindReview">;
+type PostingV8 = PostingV9 & { studentPrevGrade?: string };
+type PostingV7 = Omit<PostingV8, "staff">;
+type PostingV6 = Omit<PostingV7, "positions" | "hoursPerPosition" | "waitlist">;
+type PostingV5 = Omit<PostingV6, "defaultTemplates"> & {
+  defaultTemplates: Partial<Record<StatusV3, string>>;
+};
+type PostingV4 = Omit<PostingV6, "defaultTemplates">;
+type PostingV3 = Omit<PostingV4, "rubric">;
+type PostingV2 = Omit<PostingV3, "classMeetings"> & { classTime: string };
+type PostingV1 = Omit<
+  PostingV2,
+  "opensAt" | "deadline" | "availabilityHistory"
+>;
+
+/** v0 → v1: postings weren't persisted before; normalize defensively. */
+export function migratePostingV1(raw: unknown): PostingV1 | null {
+  if (!isObject(raw)) return null;
+  const id = str(raw.id);
+  const code = str(raw.code);
+  if (!id || !code) return null;
+  return {
+    id,
+    code,
+    title: str(raw.title, code),
+    professor: str(raw.professor),
+    studentPrevGrade: str(raw.studentPrevGrade) || undefined,
+    classTime: str(raw.classTime),
+    tutorialSlots: (Array.isArray(raw.tutorialSlots) ? raw.tutorialSlots : [])
+      .map(migrateSlot)
+      .filter((t): t is TutorialSlot => t !== null),
+    description: str(raw.description),
+    requiredQualifications: Array.isArray(raw.requiredQualifications)
+      ? raw.requiredQualifications.filter(
+          (q): q is string => typeof q === "string"
+        )
+      : [],
+    closed: raw.closed === true,
+  };
+}
+
+/**
+ * v1 → v2: open date / deadline. Existing postings count as open since
+ * forever with no deadline, so nothing closes unexpectedly on upgrade.
+ */
+export function migratePostingV2(p: PostingV1): PostingV2 {
+  return {
+    ...p,
+    opensAt: 0,
+    deadline: null,
+    availabilityHistory: [] as AvailabilityChange[],
+  };
+}
+
+/**
+ * v2 → v3: structured class time. The free-text classTime is parsed into
+ * meetings (text we can't read becomes "TBA" for the professor to fix) and
+ * tutorial times are normalized to "HH:MM" ("9:30" used to sort wrong).
+ */
+export function migratePostingV3(p: PostingV2): PostingV3 {
+  const { classTime, ...rest } = p;
+  return {
+    ...rest,
+    classMeetings: parseMeetings(classTime) ?? [],
+    tutorialSlots: p.tutorialSlots
+      .map((t) => normalizeSlot(t))
+      .filter((t): t is TutorialSlot => t !== null),
+  };
+}
+
+/** v3 → v4: scoring rubric. Existing postings get the default criteria. */
+export function migratePostingV4(p: PostingV3): PostingV4 {
+  return { ...p, rubric: DEFAULT_RUBRIC.map((c) => ({ ...c })) };
+}
+
+/** v4 → v5: default message template per status. None picked yet. */
+export function migratePostingV5(p: PostingV4): PostingV5 {
+  return { ...p, defaultTemplates: {} };
+}
+
+/** v5 → v6: offers. The default "accepted" template moves to "offered". */
+export function migratePostingV6(p: PostingV5): PostingV6 {
+  const { accepted, ...defaultTemplates } = p.defaultTemplates;
+  return {
+    ...p,
+    defaultTemplates: {
+      ...defaultTemplates,
+      ...(accepted && !defaultTemplates.offered ? { offered: accepted } : {}),
+    },
+  };
+}
+
+/**
+ * v6 → v7: capacity and waitlist. Postings had no limit; they start with
+ * one full-term position for the professor to adjust.
+ */
+export function migratePostingV7(p: PostingV6): PostingV7 {
+  return { ...p, positions: 1, hoursPerPosition: DEFAULT_HOURS, waitlist: [] };
+}
+
+/** v7 → v8: co-instructors and reviewers. The owner works alone so far. */
+export function migratePostingV8(p: PostingV7): PostingV8 {
+  return { ...p, staff: [] };
+}
+
+/**
+ * v8 → v9: the "previous grade" was the demo student's, stored on the
+ * posting; grades now live in each student's profile.
+ */
+export function migratePostingV9(p: PostingV8): PostingV9 {
+  const next = { ...p };
+  delete next.studentPrevGrade;
+  return next;
+}
+
+/** v9 → v10: blind first-round review. Off until the professor opts in. */
+export function migratePostingV10(p: PostingV9): Posting {
+  return { ...p, blindReview: false };
+}
+
+export const postingsKey = persistedKey<Posting[]>({
+  key: "postings",
+  version: 10,
+  fallback: initialPostings,
+  migrations: {
+    1: (data) =>
+      (Array.isArray(data) ? data : [])
+        .map(migratePostingV1)
+        .filter((p): p is PostingV1 => p !== null),
+    2: (data) => (data as PostingV1[]).map(migratePostingV2),
+    3: (data) => (data as PostingV2[]).map(migratePostingV3),
+    4: (data) => (data as PostingV3[]).map(migratePostingV4),
+    5: (data) => (data as PostingV4[]).map(migratePostingV5),
+    6: (data) => (data as PostingV5[]).map(migratePostingV6),
+    7: (data) => (data as PostingV6[]).map(migratePostingV7),
+    8: (data) => (data as PostingV7[]).map(migratePostingV8),
+    9: (data) => (data as PostingV8[]).map(migratePostingV9),
+    10: (data) => (data as PostingV9[]).map(migratePostingV10),
+  },
+});
+
+/** v0 → v1: timetables weren't persisted before; normalize defensively. */
+export function migrateTimetableV1(data: unknown): TimetableEntry[] {
+  return (Array.isArray(data) ? data : []).flatMap((raw, i) => {
+    const slot = migrateSlot(raw);
+    if (!slot || !isObject(raw)) return [];
+    const location = str(raw.location);
+    return [
+      {
+        ...slot,
+        id: str(raw.id) || `class-${i}`,
+        title: str(raw.title, "Class"),
+        ...(location ? { location } : {}),
+      },
+    ];
+  });
+}
+
+/** The student's weekly classes; starts empty until imported / entered. */
+export const timetableKey = persistedKey<TimetableEntry[]>({
+  key: "timetable",
+  version: 1,
+  fallback: () => [],
+  migrations: { 1: migrateTimetableV1 },
+});
+
+type MessageTemplateV1 = Omit<MessageTemplate, "status"> & { status: StatusV3 };
+
+/** v0 → v1: templates weren't persisted before; keep well-formed ones. */
+export function migrateMessageTemplatesV1(data: unknown): MessageTemplateV1[] {
+  return (Array.isArray(data) ? data : []).flatMap((raw) => {
+    if (!isObject(raw) || !isStatusV3(raw.status)) return [];
+    const id = str(raw.id);
+    const body = str(raw.body);
+    if (!id || !body) return [];
+    return [
+      {
+        id,
+        name: str(raw.name, "Untitled"),
+        status: raw.status,
+        body,
+        professor: str(raw.professor),
+      },
+    ];
+  });
+}
+
+/** v1 → v2: offers. "accepted" messages are now sent with the offer. */
+export function migrateMessageTemplateV2(
+  t: MessageTemplateV1
+): MessageTemplate {
+  return { ...t, status: t.status === "accepted" ? "offered" : t.status };
+}
+
+export const messageTemplatesKey = persistedKey<MessageTemplate[]>({
+  key: "messageTemplates",
+  version: 2,
+  fallback: () => [],
+  migrations: {
+    1: migrateMessageTemplatesV1,
+    2: (data) => (data as MessageTemplateV1[]).map(migrateMessageTemplateV2),
+  },
+});
+
+/** v0 → v1: interview slots weren't persisted before; keep well-formed ones. */
+export function migrateInterviewSlotsV1(data: unknown): InterviewSlot[] {
+  return (Array.isArray(data) ? data : []).flatMap((raw) => {
+    if (!isObject(raw)) return [];
+    const id = str(raw.id);
+    const postingId = str(raw.postingId);
+    const start = toTimestamp(raw.start);
+    const minutes = Number(raw.minutes);
+    if (!id || !postingId || start === null || !(minutes > 0)) return [];
+    return [
+      {
+        id,
+        postingId,
+        start,
+        minutes,
+        location: str(raw.location),
+        bookedBy: str(raw.bookedBy) || null,
+      },
+    ];
+  });
+}
+
+export const interviewSlotsKey = persistedKey<InterviewSlot[]>({
+  key: "interviewSlots",
+  version: 1,
+  fallback: () => [],
+  migrations: { 1: migrateInterviewSlotsV1 },
+});
+
+export const profPostingIdKey = persistedKey<string>({
+  key: "profPostingId",
+  version: 1,
+  fallback: () => "",
+  migrations: { 1: (data) => str(data) },
+});
+
+const optionalYear = (v: unknown) =>
+  typeof v === "number" && Number.isInteger(v) && v > 0 ? v : null;
+
+/** v0 → v1 (new key): keep well-formed fields, fall back to the demo. */
+export function migrateStudentProfileV1(raw: unknown): StudentProfile {
+  if (!isObject(raw)) return DEMO_STUDENT_PROFILE;
+  const grades = isObject(raw.grades) ? raw.grades : {};
+  return {
+    id: str(raw.id, DEMO_STUDENT_PROFILE.id),
+    name: str(raw.name),
+    studentNumber: str(raw.studentNumber),
+    email: str(raw.email),
+    program: str(raw.program),
+    year: optionalYear(raw.year),
+    taExperience: str(raw.taExperience),
+    grades: Object.fromEntries(
+      Object.entries(grades).filter(
+        (e): e is [string, string] => typeof e[1] === "string"
+      )
+    ),
+  };
+}
+
+/** The signed-in student's own profile (one student per browser). */
+export const studentProfileKey = persistedKey<StudentProfile>({
+  key: "studentProfile",
+  version: 1,
+  fallback: () => DEMO_STUDENT_PROFILE,
+  migrations: { 1: migrateStudentProfileV1 },
+});
+
+export const sessionUserIdKey = persistedKey<string>({
+  key: "sessionUserId",
+  version: 1,
+  fallback: () => "",
+  migrations: { 1: (data) => str(data) },
+});
+
+const isRole = (v: unknown): v is Role =>
+  v === "student" || v === "professor" || v === "coordinator";
+
+/** v0 → v1 (new key): drop entries we can't read. */
+export function migrateAccessLogV1(raw: unknown): AccessDenial[] {
+  return (Array.isArray(raw) ? raw : [])
+    .filter(isObject)
+    .map((r) => ({
+      at: toTimestamp(r.at),
+      userId: str(r.userId),
+      userName: str(r.userName),
+      role: r.role,
+      action: str(r.action),
+      reason: str(r.reason),
+    }))
+    .filter(
+      (e): e is AccessDenial => e.at !== null && !!e.userId && isRole(e.role)
+    )
+    .slice(-ACCESS_LOG_LIMIT);
+}
+
+export const accessLogKey = persistedKey<AccessDenial[]>({
+  key: "accessLog",
+  version: 1,
+  fallback: () => [],
+  migrations: { 1: migrateAccessLogV1 },
+});
+
+/** v0 → v1 (new key): drop notices we can't read or deliver. */
+export function migrateNotificationsV1(raw: unknown): InboxItem[] {
+  return (Array.isArray(raw) ? raw : [])
+    .filter(isObject)
+    .map((r) => ({
+      id: str(r.id),
+      to: str(r.to),
+      at: toTimestamp(r.at),
+      title: str(r.title),
+      body: str(r.body),
+      read: r.read === true,
+      applicationId: str(r.applicationId) || null,
+      postingId: str(r.postingId) || null,
+    }))
+    .filter((n): n is InboxItem => n.at !== null && !!n.id && !!n.to)
+    .slice(-INBOX_LIMIT);
+}
+
+/** Everyone's notifications (one inbox per user id). */
+export const notificationsKey = persistedKey<InboxItem[]>({
+  key: "notifications",
+  version: 1,
+  fallback: () => [],
+  migrations: { 1: migrateNotificationsV1 },
+});
+
+/** Coordinator's department-wide switch for blind first-round review. */
+export const requireBlindReviewKey = persistedKey<boolean>({
+  key: "requireBlindReview",
+  version: 1,
+  fallback: () => false,
+  migrations: { 1: (data) => data === true },
+});
+
+/** v0 → v1 (new key): drop entries we can't read. */
+export function migrateRevealLogV1(raw: unknown): IdentityReveal[] {
+  return (Array.isArray(raw) ? raw : [])
+    .filter(isObject)
+    .map((r) => ({
+      at: toTimestamp(r.at),
+      applicationId: str(r.applicationId),
+      postingId: str(r.postingId),
+      course: str(r.course),
+      by: str(r.by),
+    }))
+    .filter((e): e is IdentityReveal => e.at !== null && !!e.applicationId);
+}
+
+export const revealLogKey = persistedKey<IdentityReveal[]>({
+  key: "revealLog",
+  version: 1,
+  fallback: () => [],
+  migrations: { 1: migrateRevealLogV1 },
+});
+
+const documentRefV1 = (data: unknown) =>
+  isStoredDocument(data) ? data : null;
+
+export const defaultResumeKey = persistedKey<StoredDocument | null>({
+  key: "defaultResume",
+  version: 1,
+  fallback: () => null,
+  migrations: { 1: documentRefV1 },
+});
+
+export const defaultTranscriptKey = persistedKey<StoredDocument | null>({
+  key: "defaultTranscript",
+  version: 1,
+  fallback: () => null,
+  migrations: { 1: documentRefV1 },
+});
+
+/** v0 → v1 (filters weren't persisted before): keep only known values. */
+export function migrateBrowseFiltersV1(raw: unknown): BrowseFilters {
+  const r: Raw = isObject(raw) ? raw : {};
+  const d = DEFAULT_BROWSE_FILTERS;
+  return {
+    availability: ["all", "open", "closed"].includes(r.availability as string)
+      ? (r.availability as BrowseFilters["availability"])
+      : d.availability,
+    conflictFreeOnly: r.conflictFreeOnly === true,
+    tutorialDays: Array.isArray(r.tutorialDays)
+      ? r.tutorialDays.filter(isWeekday)
+      : d.tutorialDays,
+    professor: str(r.professor, d.professor),
+    notYetApplied: r.notYetApplied === true,
+    sort: ["deadline", "code", "compatibility"].includes(r.sort as string)
+      ? (r.sort as BrowseSort)
+      : d.sort,
+  };
+}
+
+export const browseFiltersKey = persistedKey<BrowseFilters>({
+  key: "browseFilters",
+  version: 1,
+  fallback: () => DEFAULT_BROWSE_FILTERS,
+  migrations: { 1: migrateBrowseFiltersV1 },
+});
+
+/** v0 → v1 (new key): keep only known values. */
+export function migrateDashboardFiltersV1(raw: unknown): DashboardFilters {
+  const r: Raw = isObject(raw) ? raw : {};
+  const d = DEFAULT_DASHBOARD_FILTERS;
+  const days = Number(r.staleDays);
+  return {
+    status: isApplicationStatus(r.status) ? r.status : d.status,
+    postingId: str(r.postingId, d.postingId),
+    staleDays: Number.isInteger(days) && days > 0 ? days : d.staleDays,
+    staleOnly: r.staleOnly === true,
+  };
+}
+
+export const dashboardFiltersKey = persistedKey<DashboardFilters>({
+  key: "dashboardFilters",
+  version: 1,
+  fallback: () => DEFAULT_DASHBOARD_FILTERS,
+  migrations: { 1: migrateDashboardFiltersV1 },
+});
@@ -0,0 +1,163 @@
+/**
+ * Application status state machine.
+ * - Professors move an application forward:
+ *   submitted → reviewed → interview → offered / rejected
+ * - The system can send an offer too, from the posting's waitlist, and so
+ *   can the coordinator when publishing a matching run (see matching.ts)
+ * - The student answers an offer (offer-accepted / offer-declined); the
+ *   system expires it once the response deadline passes (see offers.ts)
+ * - Only the student can withdraw, while the application is open or after
+ *   accepting an offer
+ * - offer-declined / expired / rejected / withdrawn are final
+ * Every change is appended to `history` so both sides see a timeline.
+ */
+import {
+  DEFAULT_NEXT_STEP,
+  type Application,
+  type ApplicationStatus,
+  type StatusActor,
+  type StatusChange,
+} from "./model";
+
+type Transition = { to: ApplicationStatus; by: StatusActor[] };
+
+export const STATUS_TRANSITIONS: Record<ApplicationStatus, Transition[]> = {
+  submitted: [
+    { to: "reviewed", by: ["professor"] },
+    { to: "rejected", by: ["professor"] },
+    { to: "withdrawn", by: ["student"] },
+  ],
+  reviewed: [
+    { to: "interview", by: ["professor"] },
+    { to: "rejected", by: ["professor"] },
+    { to: "withdrawn", by: ["student"] },
+  ],
+  interview: [
+    // the system sends offers to waitlisted applicants
+    { to: "offered", by: ["professor", "coordinator", "system"] },
+    { to: "rejected", by: ["professor"] },
+    { to: "withdrawn", by: ["student"] },
+  ],
+  offered: [
+    { to: "offer-accepted", by: ["student"] },
+    { to: "offer-declined", by: ["student"] },
+    { to: "expired", by: ["system"] },
+  ],
+  "offer-accepted": [{ to: "withdrawn", by: ["student"] }],
+  "offer-declined": [],
+  expired: [],
+  rejected: [],
+  withdrawn: [],
+};
+
+export class StatusTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatusTransitionError";
+  }
+}
+
+export function canTransition(
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  actor: StatusActor
+) {
+  return STATUS_TRANSITIONS[from].some(
+    (t) => t.to === to && t.by.includes(actor)
+  );
+}
+
+/** Statuses `actor` may move an application in `from` to. */
+export function allowedTransitions(
+  from: ApplicationStatus,
+  actor: StatusActor
+): ApplicationStatus[] {
+  return STATUS_TRANSITIONS[from]
+    .filter((t) => t.by.includes(actor))
+    .map((t) => t.to);
+}
+
+/**
+ * Returns a copy of `app` in status `to` with the change recorded in its
+ * history (attributed to `by`, if given). Throws StatusTransitionError for
+ * transitions the table forbids.
+ */
+export function transition(
+  app: Application,
+  to: ApplicationStatus,
+  actor: StatusActor,
+  message: string = DEFAULT_NEXT_STEP[to],
+  now: number = Date.now(),
+  by: string | null = null
+): Application {
+  if (!canTransition(app.status, to, actor)) {
+    const who = actor === "system" ? "The system" : `A ${actor}`;
+    throw new StatusTransitionError(
+      STATUS_TRANSITIONS[app.status].length === 0
+        ? `This application is ${app.status} and can no longer change status.`
+        : `${who} cannot move an application from ${app.status} to ${to}.`
+    );
+  }
+  const change: StatusChange = {
+    from: app.status,
+    to,
+    actor,
+    at: now,
+    message,
+    by,
+  };
+  return {
+    ...app,
+    status: to,
+    nextStep: message,
+    history: [...app.history, change],
+  };
+}
+
+export type BulkTransitionResult = {
+  updated: Application[];
+  skipped: { app: Application; reason: string }[];
+};
+
+/**
+ * `transition` for a batch. Each application is checked on its own, so
+ * the ones the table forbids are skipped (with the reason) instead of
+ * failing the whole batch. `message` may be per application (e.g. a
+ * template rendered for each student).
+ */
+export function bulkTransition(
+  apps: Application[],
+  to: ApplicationStatus,
+  actor: StatusActor,
+  message: string | ((app: Application) => string) = DEFAULT_NEXT_STEP[to],
+  now: number = Date.now(),
+  by: string | null = null
+): BulkTransitionResult {
+  const result: BulkTransitionResult = { updated: [], skipped: [] };
+  for (const app of apps) {
+    try {
+      const text = typeof message === "string" ? message : message(app);
+      result.updated.push(transition(app, to, actor, text, now, by));
+    } catch (err) {
+      if (!(err instanceof StatusTransitionError)) throw err;
+      result.skipped.push({ app, reason: err.message });
+    }
+  }
+  return result;
+}
+
+/** No further status change is possible (rejected, withdrawn, …). */
+export const isFinalStatus = (status: ApplicationStatus) =>
+  STATUS_TRANSITIONS[status].length === 0;
+
+/** First history entry for a freshly submitted application. */
+export function submittedEntry(now: number = Date.now()): StatusChange {
+  return {
+    from: null,
+    to: "submitted",
+    actor: "student",
+    at: now,
+    message: DEFAULT_NEXT_STEP.submitted,
+    by: null,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Versioned localStorage persistence.
+ * - Every key is written as an envelope { v, data }
+ * - Values written by older builds (raw JSON, no envelope) count as v0
+ * - migrations[n] upgrades data from v(n-1) to v(n); they run in order on load
+ * - Defaults and migrations get "now" from the caller (the app's Clock)
+ * - Anything that fails to parse or migrate falls back to the default
+ * - Values written by a newer build are never overwritten (a rolled back
+ *   build runs on defaults and leaves them alone, see canOverwrite)
+ */
+import { useEffect, useState } from "react";
+import type { Clock } from "./clock";
+
+type Envelope = { v: number; data: unknown };
+
+export type Migration = (data: unknown, now: number) => unknown;
+
+export type PersistedKey<T> = {
+  key: string;
+  version: number;
+  load(now?: number): T;
+  save(value: T): void;
+};
+
+function isEnvelope(v: unknown): v is Envelope {
+  return (
+    !!v &&
+    typeof v === "object" &&
+    !Array.isArray(v) &&
+    typeof (v as Envelope).v === "number" &&
+    "data" in v
+  );
+}
+
+const toEnvelope = (parsed: unknown): Envelope =>
+  isEnvelope(parsed) ? parsed : { v: 0, data: parsed };
+
+/**
+ * False when `raw` (the stored string) was written by a newer build than
+ * `version`: loading it fell back to the default, and saving would replace
+ * the newer data with that default.
+ */
+export function canOverwrite(raw: string | null, version: number) {
+  if (raw === null) return true;
+  try {
+    return toEnvelope(JSON.parse(raw)).v <= version;
+  } catch {
+    return true;
+  }
+}
+
+/** Runs the migrations needed to bring `data` from `from` up to `to`. */
+export function migrate(
+  data: unknown,
+  from: number,
+  to: number,
+  migrations: Record<number, Migration>,
+  now: number = Date.now()
+): unknown {
+  let out = data;
+  for (let v = from + 1; v <= to; v++) {
+    const step = migrations[v];
+    if (!step) throw new Error(`No migration to v${v}`);
+    out = step(out, now);
+  }
+  return out;
+}
+
+export function persistedKey<T>(opts: {
+  key: string;
+  version: number;
+  fallback: (now: number) => T;
+  migrations?: Record<number, Migration>;
+}): PersistedKey<T> {
+  const { key, version, fallback, migrations = {} } = opts;
+  return {
+    key,
+    version,
+    load(now = Date.now()) {
+      try {
+        const raw = localStorage.getItem(key);
+        if (raw === null) return fallback(now);
+        const env = toEnvelope(JSON.parse(raw));
+        // written by a newer build – don't guess at its shape
+        if (env.v > version) return fallback(now);
+        return migrate(env.data, env.v, version, migrations, now) as T;
+      } catch {
+        return fallback(now);
+      }
+    },
+    save(value) {
+      try {
+        if (!canOverwrite(localStorage.getItem(key), version)) return;
+        const env: Envelope = { v: version, data: value };
+        localStorage.setItem(key, JSON.stringify(env));
+      } catch {
+        // ignore
+      }
+    },
+  };
+}
+
+/** useState that loads from / saves to a persisted key. */
+export function usePersistedState<T>(store: PersistedKey<T>, clock?: Clock) {
+  const [value, setValue] = useState<T>(() => store.load(clock?.now()));
+  useEffect(() => store.save(value), [store, value]);
+  return [value, setValue] as const;
+}
@@ -0,0 +1,87 @@
+/**
+ * Next-step message templates.
+ * Professors write messages with {placeholders}; the rendered text is what
+ * gets stored on the application (nextStep + history) and shown to the
+ * student.
+ */
+import { formatInterviewTime } from "./interviews";
+import type {
+  Application,
+  ApplicationStatus,
+  InterviewSlot,
+  MessageTemplate,
+  Posting,
+} from "./model";
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "course",
+  "studentName",
+  "interviewTime",
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+export type TemplateVars = Partial<Record<TemplatePlaceholder, string>>;
+
+// used when a value isn't known (yet), so messages still read naturally
+const FALLBACK: Record<TemplatePlaceholder, string> = {
+  course: "the course",
+  studentName: "applicant",
+  interviewTime: "a time to be confirmed",
+};
+
+const PLACEHOLDER_RE = /\{(\w+)\}/g;
+
+const isPlaceholder = (name: string): name is TemplatePlaceholder =>
+  (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+
+/** Fills in known placeholders; unknown ones are left as typed. */
+export function renderTemplate(body: string, vars: TemplateVars) {
+  return body.replace(PLACEHOLDER_RE, (match, name: string) =>
+    isPlaceholder(name) ? vars[name]?.trim() || FALLBACK[name] : match
+  );
+}
+
+export function templateVars(
+  app: Application,
+  posting?: Posting,
+  interview?: InterviewSlot
+): TemplateVars {
+  return {
+    course: posting?.code ?? app.course,
+    studentName: app.student?.name,
+    interviewTime: interview && formatInterviewTime(interview),
+  };
+}
+
+/** Checks a message before it's sent or saved: not empty, no typos. */
+export function validateMessage(body: string): { ok: boolean; msg?: string } {
+  if (!body.trim()) return { ok: false, msg: "The message can't be empty." };
+  const unknown = [...body.matchAll(PLACEHOLDER_RE)]
+    .map((m) => m[1])
+    .filter((n) => !isPlaceholder(n));
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      msg:
+        `Unknown placeholder {${unknown[0]}}. Use ` +
+        TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(", ") +
+        ".",
+    };
+  }
+  return { ok: true };
+}
+
+export function validateTemplate(name: string, body: string) {
+  if (!name.trim()) return { ok: false, msg: "Give the template a name." };
+  return validateMessage(body);
+}
+
+/** The posting's default template for `status`, if it still exists. */
+export function defaultTemplate(
+  posting: Posting,
+  status: ApplicationStatus,
+  templates: MessageTemplate[]
+) {
+  const id = posting.defaultTemplates[status];
+  return templates.find((t) => t.id === id);
+}
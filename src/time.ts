@@ -0,0 +1,176 @@
+/**
+ * Time and schedule parsing.
+ * Everything is normalized to minutes since midnight internally and
+ * "HH:MM" (24h, zero-padded) when stored, so comparisons never depend on
+ * how a time was typed ("9:30", "09:30", "9:30am" are all the same time).
+ */
+import { WEEKDAYS, type ClassMeeting, type TimeSlot, type Weekday } from "./model";
+
+const DAY_ALIASES: Record<string, Weekday> = {
+  m: "Mon", mo: "Mon", mon: "Mon", monday: "Mon",
+  t: "Tue", tu: "Tue", tue: "Tue", tues: "Tue", tuesday: "Tue",
+  w: "Wed", we: "Wed", wed: "Wed", weds: "Wed", wednesday: "Wed",
+  r: "Thu", th: "Thu", thu: "Thu", thur: "Thu", thurs: "Thu", thursday: "Thu",
+  f: "Fri", fr: "Fri", fri: "Fri", friday: "Fri",
+  s: "Sat", sa: "Sat", sat: "Sat", saturday: "Sat",
+  u: "Sun", su: "Sun", sun: "Sun", sunday: "Sun",
+};
+
+/**
+ * Minutes since midnight, or null if `text` isn't a time.
+ * Accepts "9:30", "09:30", "9.30", "930", "1430", "9:30am", "2 PM",
+ * "12pm" (noon) and "12am" (midnight). "24:00" is allowed as an end time.
+ */
+export function parseTime(text: string): number | null {
+  const m = /^\s*(\d{1,2})(?:[:.h]?(\d{2}))?\s*([ap])?\.?\s*m?\.?\s*$/i.exec(
+    text
+  );
+  if (!m) return null;
+  let h = Number(m[1]);
+  const min = m[2] === undefined ? 0 : Number(m[2]);
+  const meridiem = m[3]?.toLowerCase();
+  // bare numbers like "9" are too ambiguous without am/pm
+  if (m[2] === undefined && !meridiem) return null;
+  if (min > 59) return null;
+  if (meridiem) {
+    if (h < 1 || h > 12) return null;
+    if (h === 12) h = 0;
+    if (meridiem === "p") h += 12;
+  } else if (h > 24 || (h === 24 && min > 0)) {
+    return null;
+  }
+  return h * 60 + min;
+}
+
+export function formatTime(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/** "9:30am" → "09:30"; null if unparseable. */
+export function normalizeTime(text: string): string | null {
+  const t = parseTime(text);
+  return t === null ? null : formatTime(t);
+}
+
+/** Minutes since midnight of a stored "HH:MM" (NaN if malformed). */
+export function minutesOf(hhmm: string) {
+  return parseTime(hhmm) ?? NaN;
+}
+
+export function parseDay(text: string): Weekday | null {
+  return DAY_ALIASES[text.trim().toLowerCase().replace(/\.$/, "")] ?? null;
+}
+
+/**
+ * "Mon", "Mon/Wed", "Tue & Thu", "Mon, Wed, Fri" or compact "MWF" / "TR".
+ * Returns [] if any part isn't a day.
+ */
+export function parseDays(text: string): Weekday[] {
+  const t = text.trim();
+  const parts = t.split(/\s*(?:[/,&+]|\band\b)\s*|\s+/i).filter(Boolean);
+  let days = parts.map(parseDay);
+  if (parts.length === 1 && days[0] === null && /^[MTWRFSU]+$/i.test(t)) {
+    days = [...t].map(parseDay);
+  }
+  if (days.length === 0 || days.some((d) => d === null)) return [];
+  const set = new Set(days as Weekday[]);
+  return WEEKDAYS.filter((d) => set.has(d));
+}
+
+export type TimeRange = { start: number; end: number };
+
+/** "14:30–16:20", "9:30-10:20", "2pm to 3:50pm". End must follow start. */
+export function parseTimeRange(text: string): TimeRange | null {
+  const parts = text.split(/\s*(?:[–—-]|\bto\b)\s*/i);
+  if (parts.length !== 2) return null;
+  const [a, b] = parts;
+  const end = parseTime(b);
+  let start = parseTime(a);
+  // "2-3:50pm" / "11-1pm": a meridiem only on the end time also decides
+  // the start – whichever reading puts the start before the end
+  const endMeridiem = /([ap])\.?\s*m?\.?\s*$/i.exec(b)?.[1]?.toLowerCase();
+  if (endMeridiem && !/[ap]\.?\s*m?\.?\s*$/i.test(a) && end !== null) {
+    const other = endMeridiem === "a" ? "p" : "a";
+    const candidates = [parseTime(a + endMeridiem), parseTime(a + other)];
+    start = candidates.find((c) => c !== null && c < end) ?? start;
+  }
+  if (start === null || end === null || end <= start) return null;
+  return { start, end };
+}
+
+/**
+ * One class meeting pattern per segment, segments separated by ";".
+ * e.g. "Mon 14:30–16:20 (ITB 137)" or "Tue/Thu 9:30-10:20 @ JHE 264".
+ * Location is whatever follows the time range, minus brackets / "@".
+ */
+export function parseMeetings(text: string): ClassMeeting[] | null {
+  const out: ClassMeeting[] = [];
+  for (const segment of text.split(";").map((s) => s.trim()).filter(Boolean)) {
+    const m =
+      /^([A-Za-z/,&+. ]+?)\s+(\d[\d:.h]*\s*(?:[ap]\.?m?\.?)?\s*(?:[–—-]|to)\s*\d[\d:.h]*\s*(?:[ap]\.?m?\.?)?)\s*(.*)$/i.exec(
+        segment
+      );
+    if (!m) return null;
+    const days = parseDays(m[1]);
+    const range = parseTimeRange(m[2]);
+    if (days.length === 0 || !range) return null;
+    const location = m[3]
+      .replace(/^[@(,\s-]+|[)\s]+$/g, "")
+      .trim();
+    for (const day of days) {
+      out.push({
+        day,
+        start: formatTime(range.start),
+        end: formatTime(range.end),
+        ...(location ? { location } : {}),
+      });
+    }
+  }
+  return out.length > 0 ? out : null;
+}
+
+/**
+ * Display string for a list of meetings: days sharing a time and room are
+ * grouped, e.g. "Tue/Thu 10:30–12:20 (ITB 201)".
+ */
+export function formatMeetings(meetings: ClassMeeting[]) {
+  if (meetings.length === 0) return "TBA";
+  const groups = new Map<string, { days: Weekday[]; m: ClassMeeting }>();
+  for (const m of meetings) {
+    const key = `${m.start}|${m.end}|${m.location ?? ""}`;
+    const g = groups.get(key);
+    if (g) g.days.push(m.day);
+    else groups.set(key, { days: [m.day], m });
+  }
+  return [...groups.values()]
+    .map(({ days, m }) => {
+      const sorted = WEEKDAYS.filter((d) => days.includes(d));
+      const where = m.location ? ` (${m.location})` : "";
+      return `${sorted.join("/")} ${m.start}–${m.end}${where}`;
+    })
+    .join("; ");
+}
+
+/** Overlap of two weekly slots in minutes (0 if different days / disjoint). */
+export function overlapMinutes(a: TimeSlot, b: TimeSlot) {
+  if (a.day !== b.day) return 0;
+  const start = Math.max(minutesOf(a.start), minutesOf(b.start));
+  const end = Math.min(minutesOf(a.end), minutesOf(b.end));
+  return Number.isFinite(start) && Number.isFinite(end)
+    ? Math.max(0, end - start)
+    : 0;
+}
+
+export function slotsOverlap(a: TimeSlot, b: TimeSlot) {
+  return overlapMinutes(a, b) > 0;
+}
+
+/** A slot with both times normalized, or null if either is unparseable. */
+export function normalizeSlot<T extends TimeSlot>(slot: T): T | null {
+  const start = normalizeTime(slot.start);
+  const end = normalizeTime(slot.end);
+  if (!start || !end) return null;
+  return { ...slot, start, end };
+}